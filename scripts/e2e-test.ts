@@ -278,6 +278,262 @@ async function testDownloadInitiate(): Promise<void> {
   }
 }
 
+async function testIdempotencyKey(): Promise<void> {
+  logSection("Idempotency-Key");
+
+  // Fresh key per run, the server remembers keys for IDEMPOTENCY_TTL_MS
+  const key = crypto.randomUUID();
+  const initiate = (body: string, client = "203.0.113.10") =>
+    fetch(`${BASE_URL}/v1/download/initiate`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Idempotency-Key": key,
+        "X-Forwarded-For": client,
+      },
+      body,
+    });
+
+  const first = await initiate('{"file_ids": [70000], "priority": "low"}');
+  const firstData = (await first.json()) as { jobId?: string };
+
+  // Same JSON with other spacing and key order
+  const retry = await initiate('{"priority":"low","file_ids":[70000]}');
+  const retryData = (await retry.json()) as { jobId?: string };
+
+  if (
+    retry.headers.get("idempotent-replayed") === "true" &&
+    retryData.jobId !== undefined &&
+    retryData.jobId === firstData.jobId
+  ) {
+    logPass("Retry with the same key replays the original response");
+  } else {
+    logFail(
+      "Retry with the same key replays the original response",
+      `replayed jobId ${String(firstData.jobId)}`,
+      `${String(retry.headers.get("idempotent-replayed"))} ${String(retryData.jobId)}`,
+    );
+  }
+
+  const changed = await initiate('{"file_ids":[70007]}');
+
+  if (changed.status === 422) {
+    logPass("Reusing a key with a different body is rejected");
+  } else {
+    logFail(
+      "Reusing a key with a different body is rejected",
+      "422",
+      String(changed.status),
+    );
+  }
+
+  const otherClient = await initiate(
+    '{"file_ids":[70000],"priority":"low"}',
+    "203.0.113.11",
+  );
+  const otherData = (await otherClient.json()) as { jobId?: string };
+
+  if (
+    otherClient.headers.get("idempotent-replayed") === null &&
+    otherData.jobId !== firstData.jobId
+  ) {
+    logPass("Keys are not shared between clients");
+  } else {
+    logFail(
+      "Keys are not shared between clients",
+      "a new job",
+      `replayed ${String(otherData.jobId)}`,
+    );
+  }
+}
+
+async function testDownloadStatus(): Promise<void> {
+  logSection("Download Status Endpoint");
+
+  const initResponse = await fetch(`${BASE_URL}/v1/download/initiate`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ file_ids: [70000, 10001] }),
+  });
+  const { jobId } = (await initResponse.json()) as { jobId: string };
+
+  const response = await fetch(`${BASE_URL}/v1/download/status/${jobId}`);
+  const data = (await response.json()) as {
+    jobId?: string;
+    status?: string;
+    files?: { file_id: number; status: string }[];
+  };
+
+  if (response.status === 200 && data.jobId === jobId) {
+    logPass("Download status returns the initiated job");
+  } else {
+    logFail(
+      "Download status returns the initiated job",
+      `200 with "jobId":"${jobId}"`,
+      `${String(response.status)} ${JSON.stringify(data)}`,
+    );
+  }
+
+  if (data.files?.length === 2) {
+    logPass("Download status tracks every file");
+  } else {
+    logFail(
+      "Download status tracks every file",
+      "2 files",
+      JSON.stringify(data.files),
+    );
+  }
+
+  // Unknown job
+  const missingResponse = await fetch(
+    `${BASE_URL}/v1/download/status/${crypto.randomUUID()}`,
+  );
+
+  if (missingResponse.status === 404) {
+    logPass("Download status returns 404 for unknown job");
+  } else {
+    logFail(
+      "Download status returns 404 for unknown job",
+      "404",
+      String(missingResponse.status),
+    );
+  }
+}
+
+async function testDownloadJobList(): Promise<void> {
+  logSection("Download Job List Endpoint");
+
+  const initResponse = await fetch(`${BASE_URL}/v1/download/initiate`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ file_ids: [70123] }),
+  });
+  const { jobId } = (await initResponse.json()) as { jobId: string };
+
+  const response = await fetch(
+    `${BASE_URL}/v1/download/jobs?fileId=70123&limit=100`,
+  );
+  const data = (await response.json()) as {
+    jobs?: { jobId: string; file?: { file_id: number } }[];
+  };
+  const match = data.jobs?.find((job) => job.jobId === jobId);
+
+  if (response.status === 200 && match?.file?.file_id === 70123) {
+    logPass("Job list finds the job containing a file ID");
+  } else {
+    logFail(
+      "Job list finds the job containing a file ID",
+      `job ${jobId} with file 70123`,
+      `${String(response.status)} ${JSON.stringify(data)}`,
+    );
+  }
+
+  const badCursorResponse = await fetch(
+    `${BASE_URL}/v1/download/jobs?cursor=not-a-cursor`,
+  );
+
+  if (badCursorResponse.status === 400) {
+    logPass("Job list rejects an invalid cursor");
+  } else {
+    logFail(
+      "Job list rejects an invalid cursor",
+      "400",
+      String(badCursorResponse.status),
+    );
+  }
+}
+
+async function testDownloadJobEvents(): Promise<void> {
+  logSection("Download Job Events Endpoint");
+
+  const initResponse = await fetch(`${BASE_URL}/v1/download/initiate`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ file_ids: [70000] }),
+  });
+  const { jobId } = (await initResponse.json()) as { jobId: string };
+
+  const controller = new AbortController();
+  const response = await fetch(`${BASE_URL}/v1/download/jobs/${jobId}/events`, {
+    signal: controller.signal,
+  });
+
+  if (response.headers.get("content-type")?.includes("text/event-stream")) {
+    logPass("Job events responds with text/event-stream");
+  } else {
+    logFail(
+      "Job events responds with text/event-stream",
+      "text/event-stream",
+      response.headers.get("content-type") ?? "not found",
+    );
+  }
+
+  // The first event is always replayed from the job's history
+  const reader = response.body?.getReader();
+  const chunk = await reader?.read();
+  controller.abort();
+  const text = new TextDecoder().decode(chunk?.value);
+
+  if (text.includes("event: job.queued") && text.includes("id: 1")) {
+    logPass("Job events replays job.queued first");
+  } else {
+    logFail("Job events replays job.queued first", "event: job.queued", text);
+  }
+}
+
+async function testDownloadCancel(): Promise<void> {
+  logSection("Download Cancel Endpoint");
+
+  const initResponse = await fetch(`${BASE_URL}/v1/download/initiate`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ file_ids: [70000, 70007] }),
+  });
+  const { jobId } = (await initResponse.json()) as { jobId: string };
+
+  const fileResponse = await fetch(
+    `${BASE_URL}/v1/download/jobs/${jobId}/files/70007`,
+    { method: "DELETE" },
+  );
+
+  if (fileResponse.status === 200) {
+    logPass("Cancel file returns 200");
+  } else {
+    logFail("Cancel file returns 200", "200", String(fileResponse.status));
+  }
+
+  const response = await fetch(`${BASE_URL}/v1/download/jobs/${jobId}`, {
+    method: "DELETE",
+  });
+  const data = (await response.json()) as { status?: string };
+
+  if (response.status === 200 && data.status === "cancelled") {
+    logPass("Cancel job marks the job cancelled");
+  } else {
+    logFail(
+      "Cancel job marks the job cancelled",
+      '200 with "status":"cancelled"',
+      `${String(response.status)} ${JSON.stringify(data)}`,
+    );
+  }
+
+  // Unknown job
+  const missingResponse = await fetch(
+    `${BASE_URL}/v1/download/jobs/${crypto.randomUUID()}`,
+    { method: "DELETE" },
+  );
+
+  if (missingResponse.status === 404) {
+    logPass("Cancel returns 404 for unknown job");
+  } else {
+    logFail(
+      "Cancel returns 404 for unknown job",
+      "404",
+      String(missingResponse.status),
+    );
+  }
+}
+
 async function testDownloadCheck(): Promise<void> {
   logSection("Download Check Endpoint");
 
@@ -365,6 +621,227 @@ async function testDownloadCheck(): Promise<void> {
   }
 }
 
+async function testDownloadCheckBatch(): Promise<void> {
+  logSection("Download Check Batch Endpoint");
+
+  const response = await fetch(`${BASE_URL}/v1/download/check-batch`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ file_ids: [70000, 99999, 70000] }),
+  });
+  const data = (await response.json()) as {
+    results?: { file_id: number; available: boolean }[];
+  };
+  const fileIds = data.results?.map((result) => result.file_id);
+
+  if (response.status === 200 && fileIds?.join() === "70000,99999") {
+    logPass("Check batch returns one result per distinct file ID");
+  } else {
+    logFail(
+      "Check batch returns one result per distinct file ID",
+      "results for 70000, 99999",
+      `${String(response.status)} ${JSON.stringify(data)}`,
+    );
+  }
+
+  const ndjsonResponse = await fetch(`${BASE_URL}/v1/download/check-batch`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/x-ndjson",
+    },
+    body: JSON.stringify({ file_ids: [70000, 99999] }),
+  });
+  const lines = (await ndjsonResponse.text()).trim().split("\n");
+
+  if (
+    ndjsonResponse.headers.get("content-type") === "application/x-ndjson" &&
+    lines.length === 2
+  ) {
+    logPass("Check batch streams NDJSON when requested");
+  } else {
+    logFail(
+      "Check batch streams NDJSON when requested",
+      "2 NDJSON lines",
+      `${String(ndjsonResponse.headers.get("content-type"))} ${String(lines.length)} lines`,
+    );
+  }
+}
+
+async function testDownloadRedeem(): Promise<void> {
+  logSection("Download Redeem Endpoint");
+
+  const response = await fetch(`${BASE_URL}/v1/download/redeem/not.signed`);
+
+  if (response.status === 403) {
+    logPass("Redeem rejects a token with a bad signature");
+  } else {
+    logFail(
+      "Redeem rejects a token with a bad signature",
+      "403",
+      String(response.status),
+    );
+  }
+
+  // Pinned to zero delay by scripts/e2e-fixtures.json, which run-e2e.ts
+  // passes to the server as MOCK_FIXTURES_PATH
+  const fileId = 77777;
+  const start = await fetch(`${BASE_URL}/v1/download/start`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ file_id: fileId }),
+  });
+  const started = (await start.json()) as {
+    status?: string;
+    downloadUrl?: string | null;
+    size?: number | null;
+  };
+
+  if (
+    start.status === 200 &&
+    started.status === "completed" &&
+    started.downloadUrl
+  ) {
+    logPass("Start completes with a download URL");
+  } else {
+    logFail(
+      "Start completes with a download URL",
+      '200 with "status":"completed"',
+      `${String(start.status)} ${JSON.stringify(started)}`,
+    );
+    return;
+  }
+
+  const download = await fetch(started.downloadUrl);
+  await download.body?.cancel();
+
+  if (
+    download.status === 200 &&
+    download.headers.get("content-length") === String(started.size)
+  ) {
+    logPass("Download URL serves the whole file");
+  } else {
+    logFail(
+      "Download URL serves the whole file",
+      `200 with Content-Length ${String(started.size)}`,
+      `${String(download.status)} with Content-Length ${String(download.headers.get("content-length"))}`,
+    );
+  }
+
+  const fileUrl = `${BASE_URL}/v1/download/file/${String(fileId)}`;
+  const forged = await fetch(`${fileUrl}?token=not.signed`);
+  await forged.body?.cancel();
+
+  if (forged.status === 403) {
+    logPass("File proxy rejects a token with a bad signature");
+  } else {
+    logFail(
+      "File proxy rejects a token with a bad signature",
+      "403",
+      String(forged.status),
+    );
+  }
+
+  // The mock backend cannot presign, so downloadUrl ends in a download token
+  const token = started.downloadUrl.split("/").at(-1) ?? "";
+  const range = await fetch(`${fileUrl}?token=${token}`, {
+    headers: { Range: "bytes=0-99" },
+  });
+  const chunk = await range.arrayBuffer();
+
+  if (
+    range.status === 206 &&
+    chunk.byteLength === 100 &&
+    range.headers.get("content-range") === `bytes 0-99/${String(started.size)}`
+  ) {
+    logPass("File proxy serves a byte range");
+  } else {
+    logFail(
+      "File proxy serves a byte range",
+      `206 with bytes 0-99/${String(started.size)}`,
+      `${String(range.status)} with ${String(range.headers.get("content-range"))}`,
+    );
+  }
+}
+
+async function testFileUpload(): Promise<void> {
+  logSection("File Upload Endpoint");
+
+  const response = await fetch(`${BASE_URL}/v1/files`, {
+    method: "POST",
+    headers: { "Content-Type": "application/zip" },
+    body: "definitely not a zip archive",
+  });
+
+  if (response.status === 415) {
+    logPass("Upload rejects a body without a zip signature");
+  } else {
+    logFail(
+      "Upload rejects a body without a zip signature",
+      "415",
+      String(response.status),
+    );
+  }
+
+  // Empty zip archive (end of central directory record only); no file_id,
+  // so reruns against persistent storage get a fresh ID
+  const archive = new Uint8Array(22);
+  archive.set([0x50, 0x4b, 0x05, 0x06]);
+  const upload = await fetch(`${BASE_URL}/v1/files`, {
+    method: "POST",
+    headers: { "Content-Type": "application/zip" },
+    body: archive,
+  });
+  const uploaded = (await upload.json()) as { file_id?: number; size?: number };
+
+  if (upload.status === 201 && uploaded.size === archive.length) {
+    logPass("Upload stores a zip archive and returns its metadata");
+  } else {
+    logFail(
+      "Upload stores a zip archive and returns its metadata",
+      `201 with size ${String(archive.length)}`,
+      `${String(upload.status)} ${JSON.stringify(uploaded)}`,
+    );
+    return;
+  }
+
+  const check = await fetch(`${BASE_URL}/v1/download/check`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ file_id: uploaded.file_id }),
+  });
+  const checked = (await check.json()) as { available?: boolean };
+
+  if (checked.available === true) {
+    logPass("Uploaded file is found by download check");
+  } else {
+    logFail(
+      "Uploaded file is found by download check",
+      '"available": true',
+      String(checked.available),
+    );
+  }
+
+  const duplicate = await fetch(
+    `${BASE_URL}/v1/files?file_id=${String(uploaded.file_id)}`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/zip" },
+      body: archive,
+    },
+  );
+
+  if (duplicate.status === 409) {
+    logPass("Upload refuses to replace an existing file");
+  } else {
+    logFail(
+      "Upload refuses to replace an existing file",
+      "409",
+      String(duplicate.status),
+    );
+  }
+}
+
 async function testRequestId(): Promise<void> {
   logSection("Request ID Tracking");
 
@@ -532,7 +1009,15 @@ async function main(): Promise<void> {
   await testHealth();
   await testSecurityHeaders();
   await testDownloadInitiate();
+  await testIdempotencyKey();
+  await testDownloadStatus();
+  await testDownloadJobEvents();
+  await testDownloadCancel();
+  await testDownloadJobList();
   await testDownloadCheck();
+  await testDownloadCheckBatch();
+  await testDownloadRedeem();
+  await testFileUpload();
   await testRequestId();
   await testContentType();
   await testMethodNotAllowed();
@@ -81,7 +81,8 @@ async function startServer(): Promise<ChildProcess> {
     {
       cwd: projectDir,
       stdio: ["ignore", "pipe", "pipe"],
-      env: { ...process.env },
+      // Fixtures pin the files some tests need; an explicit setting wins
+      env: { MOCK_FIXTURES_PATH: "scripts/e2e-fixtures.json", ...process.env },
     },
   );
 
@@ -0,0 +1,121 @@
+// ============================================
+// Job Bundles
+// ============================================
+//
+// Packs the completed files of a job into one zip so users get a single
+// link instead of hundreds. Objects are read one at a time and streamed
+// through the zip writer straight into storage, so memory stays at a couple
+// of upload parts however large the bundle gets.
+
+import { ZipArchive } from "archiver";
+import { once } from "node:events";
+import { basename } from "node:path";
+import { PassThrough } from "node:stream";
+import type { Readable } from "node:stream";
+import type { BundleResult, JobFile } from "./jobs.ts";
+import { ObjectNotFoundError } from "./storage.ts";
+import type { StorageBackend } from "./storage.ts";
+
+export interface BundlerOptions {
+  // Where bundles are written
+  storage: StorageBackend;
+  // Where the file is stored, rejects with ObjectNotFoundError when it is
+  // nowhere
+  findFile: (
+    fileId: number,
+    signal: AbortSignal,
+    tenant: string | null,
+  ) => Promise<{ storage: StorageBackend; key: string }>;
+  keyForBundle: (jobId: string) => string;
+  presignDownload: (
+    key: string,
+  ) => Promise<{ downloadUrl: string; expiresAt: string }>;
+}
+
+export const createBundler = ({
+  storage,
+  findFile,
+  keyForBundle,
+  presignDownload,
+}: BundlerOptions) => {
+  const build = async (
+    jobId: string,
+    files: JobFile[],
+    signal: AbortSignal,
+    tenant: string | null = null,
+  ): Promise<BundleResult> => {
+    signal.throwIfAborted();
+    const key = keyForBundle(jobId);
+
+    // Entries are stored as-is, the sources are zips already
+    const archive = new ZipArchive({ store: true });
+    // archiver ships its own stream classes, which the S3 uploader does not
+    // recognise as a Readable; hand storage a core stream instead
+    const body = new PassThrough();
+    archive.pipe(body);
+    const upload = new AbortController();
+
+    const appendFiles = async (): Promise<number> => {
+      let fileCount = 0;
+      for (const file of files) {
+        signal.throwIfAborted();
+        let fileKey: string;
+        let source: Readable;
+        try {
+          let fileStorage: StorageBackend;
+          ({ storage: fileStorage, key: fileKey } = await findFile(
+            file.file_id,
+            signal,
+            tenant,
+          ));
+          ({ body: source } = await fileStorage.get(fileKey, { signal }));
+        } catch (err) {
+          // Deleted since the file completed, leave it out
+          if (err instanceof ObjectNotFoundError) continue;
+          throw err;
+        }
+        archive.append(source, { name: basename(fileKey) });
+        // Open the next object only once this one is written out
+        await once(archive, "entry");
+        fileCount++;
+      }
+      await archive.finalize();
+      return fileCount;
+    };
+
+    // Abort the upload before tearing down the streams, otherwise the
+    // truncated zip would be stored as a complete object. Destroying the
+    // body wakes the writer so it can clean up.
+    const abort = () => {
+      upload.abort();
+      archive.abort();
+      body.destroy();
+    };
+    signal.addEventListener("abort", abort, { once: true });
+
+    try {
+      const [fileCount] = await Promise.all([
+        appendFiles(),
+        storage.put(key, body, {
+          contentType: "application/zip",
+          signal: upload.signal,
+        }),
+      ]);
+      return {
+        key,
+        ...(await presignDownload(key)),
+        size: archive.pointer(),
+        fileCount,
+      };
+    } catch (err) {
+      if (!signal.aborted) abort();
+      throw err;
+    } finally {
+      signal.removeEventListener("abort", abort);
+    }
+  };
+
+  return { build };
+};
+
+export type Bundler = ReturnType<typeof createBundler>;
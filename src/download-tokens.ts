@@ -0,0 +1,107 @@
+// ============================================
+// Download Tokens
+// ============================================
+//
+// Download links signed by the service itself, for storage backends that
+// cannot presign (local directory, mock). A token is `${payload}.${signature}`:
+//   payload:   base64url JSON {k: key, e: expiry (unix seconds), n: nonce,
+//              o: single use}
+//   signature: base64url HMAC_SHA256(secret, payload)
+// Redeemed single-use tokens are remembered in memory until they expire, so
+// behind several instances each instance accepts such a token once.
+
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+export type DownloadTokenFailure = "invalid" | "expired" | "used";
+
+const FAILURE_MESSAGES: Record<DownloadTokenFailure, string> = {
+  invalid: "Download token is malformed or has a bad signature",
+  expired: "Download token has expired",
+  used: "Download token was already used",
+};
+
+export class DownloadTokenError extends Error {
+  readonly reason: DownloadTokenFailure;
+
+  constructor(reason: DownloadTokenFailure) {
+    super(FAILURE_MESSAGES[reason]);
+    this.name = "DownloadTokenError";
+    this.reason = reason;
+  }
+}
+
+interface TokenPayload {
+  k: string;
+  e: number;
+  n: string;
+  o: boolean;
+}
+
+export interface DownloadTokenOptions {
+  // Empty = random per process, tokens stop working on restart
+  secret: string;
+  ttlSeconds: number;
+  singleUse: boolean;
+}
+
+export const createDownloadTokens = ({
+  secret,
+  ttlSeconds,
+  singleUse,
+}: DownloadTokenOptions) => {
+  const key = secret || randomBytes(32).toString("hex");
+  // nonce -> expiry (unix seconds) of redeemed single-use tokens
+  const redeemed = new Map<string, number>();
+
+  const sign = (payload: string): Buffer =>
+    createHmac("sha256", key).update(payload).digest();
+
+  const prune = () => {
+    const now = Date.now() / 1000;
+    for (const [nonce, expiresAt] of redeemed) {
+      if (expiresAt <= now) redeemed.delete(nonce);
+    }
+  };
+  setInterval(prune, 60_000).unref();
+
+  const mint = (objectKey: string): { token: string; expiresAt: string } => {
+    const expiresAt = Math.floor(Date.now() / 1000) + ttlSeconds;
+    const payload = Buffer.from(
+      JSON.stringify({
+        k: objectKey,
+        e: expiresAt,
+        n: randomBytes(12).toString("base64url"),
+        o: singleUse,
+      } satisfies TokenPayload),
+    ).toString("base64url");
+    return {
+      token: `${payload}.${sign(payload).toString("base64url")}`,
+      expiresAt: new Date(expiresAt * 1000).toISOString(),
+    };
+  };
+
+  // Key of the object the token grants access to. Throws
+  // DownloadTokenError unless the token may be used right now.
+  const redeem = (token: string): string => {
+    const [payload = "", signature = ""] = token.split(".");
+    const expected = sign(payload);
+    const given = Buffer.from(signature, "base64url");
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      throw new DownloadTokenError("invalid");
+    }
+
+    const { k, e, n, o } = JSON.parse(
+      Buffer.from(payload, "base64url").toString(),
+    ) as TokenPayload;
+    if (e <= Date.now() / 1000) throw new DownloadTokenError("expired");
+    if (o) {
+      if (redeemed.has(n)) throw new DownloadTokenError("used");
+      redeemed.set(n, e);
+    }
+    return k;
+  };
+
+  return { mint, redeem };
+};
+
+export type DownloadTokens = ReturnType<typeof createDownloadTokens>;
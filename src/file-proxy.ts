@@ -0,0 +1,125 @@
+// ============================================
+// Download Proxy
+// ============================================
+//
+// Streams objects through the service for clients that cannot reach the
+// object store directly. Range and the conditional headers are handed to
+// the storage backend, so the ETag check and the read happen in one request
+// and an interrupted download resumes from the byte it stopped at.
+//
+// If-Range follows RFC 9110 section 13.1.5: the range is only served when
+// the validator matches exactly, a strong ETag or a date equal to the
+// object's Last-Modified. Anything else (weak or malformed tags, dates that
+// do not parse or cannot be compared) gets the whole object, so a resumed
+// download never splices bytes of a changed object onto the old ones.
+
+import { basename } from "node:path";
+import { Readable } from "node:stream";
+import { proxyBytesSent } from "./metrics.ts";
+import { ConditionalReadError } from "./storage.ts";
+import type { ObjectStream, ReadOptions, StorageBackend } from "./storage.ts";
+
+export interface ProxyConditions {
+  range?: string;
+  ifNoneMatch?: string;
+  ifRange?: string;
+}
+
+const STRONG_ETAG = /^"[^"]*"$/;
+
+// Read condition that lets storage reject a changed object up front; null
+// when the validator can never match
+const ifRangeCondition = (
+  ifRange: string,
+): Pick<ReadOptions, "ifMatch" | "ifUnmodifiedSince"> | null => {
+  if (STRONG_ETAG.test(ifRange)) return { ifMatch: ifRange };
+  if (ifRange.includes('"')) return null;
+  const date = new Date(ifRange);
+  return Number.isNaN(date.getTime()) ? null : { ifUnmodifiedSince: date };
+};
+
+// The exact comparison on what storage returned. If-Unmodified-Since also
+// passes for older objects, and backends may compare ETags loosely.
+const ifRangeMatches = (ifRange: string, object: ObjectStream): boolean => {
+  if (STRONG_ETAG.test(ifRange)) return object.etag === ifRange;
+  // HTTP dates have whole-second resolution
+  return (
+    object.lastModified !== null &&
+    Math.floor(object.lastModified.getTime() / 1000) ===
+      Math.floor(new Date(ifRange).getTime() / 1000)
+  );
+};
+
+export const createFileProxy = () => {
+  // Resolves to the response to send for key in storage. Missing objects
+  // and storage failures reject for the caller to report.
+  const serve = async (
+    storage: StorageBackend,
+    key: string,
+    { range, ifNoneMatch, ifRange }: ProxyConditions,
+    signal: AbortSignal,
+  ): Promise<Response> => {
+    const conditional = range !== undefined && ifRange !== undefined;
+    const rangeCondition = conditional ? ifRangeCondition(ifRange) : {};
+    if (rangeCondition === null) {
+      return serve(storage, key, { ifNoneMatch }, signal);
+    }
+
+    let object: ObjectStream;
+    try {
+      object = await storage.get(key, {
+        range,
+        ifNoneMatch,
+        ...rangeCondition,
+        signal,
+      });
+    } catch (err) {
+      if (!(err instanceof ConditionalReadError)) throw err;
+      // Changed since the client's copy, start over with the whole object
+      if (err.status === 412 && ifRange !== undefined) {
+        return serve(storage, key, { ifNoneMatch }, signal);
+      }
+      const headers = new Headers();
+      if (err.etag !== null) headers.set("ETag", err.etag);
+      if (err.status === 416 && err.size !== null) {
+        headers.set("Content-Range", `bytes */${String(err.size)}`);
+      }
+      return new Response(null, { status: err.status, headers });
+    }
+    if (conditional && !ifRangeMatches(ifRange, object)) {
+      object.body.destroy();
+      return serve(storage, key, { ifNoneMatch }, signal);
+    }
+
+    const headers = new Headers({
+      "Accept-Ranges": "bytes",
+      "Content-Type": object.contentType ?? "application/octet-stream",
+      "Content-Disposition": `attachment; filename="${basename(key)}"`,
+      "Content-Length": String(object.contentLength),
+    });
+    if (object.contentRange) headers.set("Content-Range", object.contentRange);
+    if (object.etag) headers.set("ETag", object.etag);
+    if (object.lastModified) {
+      headers.set("Last-Modified", object.lastModified.toUTCString());
+    }
+
+    const body = (
+      Readable.toWeb(object.body) as ReadableStream<Uint8Array>
+    ).pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform: (chunk, controller) => {
+          proxyBytesSent(chunk.byteLength);
+          controller.enqueue(chunk);
+        },
+      }),
+    );
+    return new Response(body, {
+      status: object.contentRange ? 206 : 200,
+      headers,
+    });
+  };
+
+  return { serve };
+};
+
+export type FileProxy = ReturnType<typeof createFileProxy>;
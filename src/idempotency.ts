@@ -0,0 +1,151 @@
+// ============================================
+// Idempotency-Key Middleware
+// ============================================
+//
+// A client that retries a POST with the same Idempotency-Key gets the
+// original response back instead of creating duplicate work. A retry that
+// arrives while the first request is still running waits for it. Reusing a
+// key with a different body is rejected with 422; JSON bodies are compared
+// by content, so spacing and key order do not matter. Keys are per client,
+// one client can never be replayed another's response.
+
+import type { Context, MiddlewareHandler } from "hono";
+import { createHash } from "node:crypto";
+
+const MAX_KEY_LENGTH = 255;
+
+interface StoredResponse {
+  status: number;
+  headers: [string, string][];
+  body: string;
+}
+
+interface IdempotencyEntry {
+  fingerprint: string;
+  response: Promise<StoredResponse>;
+  // Set once the original request completes
+  expiresAt: number | null;
+}
+
+export interface IdempotencyOptions {
+  ttlMs: number;
+  // Who the key belongs to
+  clientKey: (c: Context) => string;
+}
+
+// Same JSON value, same string: object keys sorted, no whitespace
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value).sort(([a], [b]) =>
+      a < b ? -1 : a > b ? 1 : 0,
+    );
+    return `{${entries
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// Bodies that are not JSON are compared byte for byte
+const fingerprintOf = (body: string): string => {
+  let canonical = body;
+  try {
+    canonical = canonicalJson(JSON.parse(body));
+  } catch {
+    // Not JSON, the route rejects it anyway
+  }
+  return createHash("sha256").update(canonical).digest("hex");
+};
+
+export const idempotency = ({
+  ttlMs,
+  clientKey,
+}: IdempotencyOptions): MiddlewareHandler => {
+  const entries = new Map<string, IdempotencyEntry>();
+
+  const prune = () => {
+    const now = Date.now();
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt !== null && entry.expiresAt <= now) {
+        entries.delete(key);
+      }
+    }
+  };
+  setInterval(prune, Math.min(ttlMs, 60_000)).unref();
+
+  const replay = (stored: StoredResponse) => {
+    const headers = new Headers(stored.headers);
+    headers.set("Idempotent-Replayed", "true");
+    return new Response(stored.body, { status: stored.status, headers });
+  };
+
+  return async (c, next) => {
+    const key = c.req.header("idempotency-key");
+    if (key === undefined) {
+      await next();
+      return;
+    }
+
+    const requestId = c.get("requestId");
+    if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+      return c.json(
+        {
+          error: "Bad Request",
+          message: `Idempotency-Key must be 1-${String(MAX_KEY_LENGTH)} characters`,
+          requestId,
+        },
+        400,
+      );
+    }
+
+    // Keys are scoped to the client and the endpoint they were first used on
+    const scopedKey = JSON.stringify([
+      clientKey(c),
+      c.req.method,
+      c.req.path,
+      key,
+    ]);
+    const fingerprint = fingerprintOf(await c.req.text());
+
+    const existing = entries.get(scopedKey);
+    if (existing && (existing.expiresAt ?? Infinity) > Date.now()) {
+      if (existing.fingerprint !== fingerprint) {
+        return c.json(
+          {
+            error: "Unprocessable Entity",
+            message:
+              "Idempotency-Key was already used with a different request body",
+            requestId,
+          },
+          422,
+        );
+      }
+      return replay(await existing.response);
+    }
+
+    const { promise, resolve } = Promise.withResolvers<StoredResponse>();
+    const entry: IdempotencyEntry = {
+      fingerprint,
+      response: promise,
+      expiresAt: null,
+    };
+    entries.set(scopedKey, entry);
+
+    await next();
+
+    const stored: StoredResponse = {
+      status: c.res.status,
+      headers: [...c.res.headers],
+      body: await c.res.clone().text(),
+    };
+    resolve(stored);
+
+    // Server errors are not final, let a retry run the operation again
+    if (stored.status >= 500) {
+      entries.delete(scopedKey);
+    } else {
+      entry.expiresAt = Date.now() + ttlMs;
+    }
+  };
+};
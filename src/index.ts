@@ -1,6 +1,7 @@
-import { HeadObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { S3Client } from "@aws-sdk/client-s3";
 import { serve } from "@hono/node-server";
 import type { ServerType } from "@hono/node-server";
+import { createNodeWebSocket } from "@hono/node-ws";
 import { httpInstrumentationMiddleware } from "@hono/otel";
 import { sentry } from "@hono/sentry";
 import { createRoute, OpenAPIHono, z } from "@hono/zod-openapi";
@@ -9,18 +10,78 @@ import { resourceFromAttributes } from "@opentelemetry/resources";
 import { NodeSDK } from "@opentelemetry/sdk-node";
 import { ATTR_SERVICE_NAME } from "@opentelemetry/semantic-conventions";
 import { Scalar } from "@scalar/hono-api-reference";
+import type { Context } from "hono";
 import { cors } from "hono/cors";
 import { secureHeaders } from "hono/secure-headers";
+import { stream, streamSSE } from "hono/streaming";
 import { timeout } from "hono/timeout";
 import { rateLimiter } from "hono-rate-limiter";
+import { createHash, randomInt, timingSafeEqual } from "node:crypto";
+import { Readable } from "node:stream";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import { createBundler } from "./bundles.ts";
+import { createDownloadTokens, DownloadTokenError } from "./download-tokens.ts";
+import { createFileProxy } from "./file-proxy.ts";
+import type { ProxyConditions } from "./file-proxy.ts";
+import { idempotency } from "./idempotency.ts";
+import { createJobSweeper } from "./job-retention.ts";
+import { createJobSocket } from "./job-socket.ts";
+import {
+  createJobStore,
+  decodeJobCursor,
+  encodeJobCursor,
+  JOB_STORE_KINDS,
+} from "./job-store.ts";
+import { createJobEngine, isFinalEvent, isJobFinished } from "./jobs.ts";
+import type { DownloadProgress, DownloadResult, Job } from "./jobs.ts";
+import {
+  createKeyLayout,
+  KEY_EXTENSION_PATTERN,
+  KEY_PREFIX_PATTERN,
+  MAX_SHARD_DEPTH,
+} from "./key-layout.ts";
 import {
   register,
   httpMiddleware,
   downloadStarted,
   downloadCompleted,
   downloadFailed,
+  downloadCoalesced,
+  jobsRecovered,
   s3OperationTimer,
+  uploadFinished,
 } from "./metrics.ts";
+import { createMockFiles, loadMockManifest } from "./mock-files.ts";
+import { createWorkerPool, PRIORITIES, QueueFullError } from "./pool.ts";
+import type { Priority } from "./pool.ts";
+import {
+  classifyS3Error,
+  createS3Retry,
+  S3RetryExhaustedError,
+} from "./s3-retry.ts";
+import {
+  createStorageRouter,
+  parseStorageRoutes,
+  parseTenantTokens,
+} from "./storage-routes.ts";
+import type { StorageRouteConfig } from "./storage-routes.ts";
+import {
+  createS3Storage,
+  createStorage,
+  ObjectExistsError,
+  ObjectNotFoundError,
+  STORAGE_BACKENDS,
+  StorageUnavailableError,
+} from "./storage.ts";
+import type { ObjectInfo, StorageBackend } from "./storage.ts";
+import {
+  createUploader,
+  fileFromMultipart,
+  UPLOAD_EXTENSION,
+  UploadRejectedError,
+} from "./uploads.ts";
+import type { UploadFailure } from "./uploads.ts";
+import { createWebhookDispatcher } from "./webhooks.ts";
 
 // Helper for optional URL that treats empty string as undefined
 const optionalUrl = z
@@ -41,6 +102,76 @@ const EnvSchema = z.object({
   S3_ENDPOINT: optionalUrl,
   S3_BUCKET_NAME: z.string().default(""),
   S3_FORCE_PATH_STYLE: z.coerce.boolean().default(false),
+  // Unset = s3 when S3_BUCKET_NAME is set, mock otherwise
+  STORAGE_BACKEND: z.enum(STORAGE_BACKENDS).optional(),
+  LOCAL_STORAGE_DIR: z.string().min(1).default("data/files"),
+  // JSON list of extra buckets by file ID range or tenant (see
+  // storage-routes.ts); unmatched files use the backend above
+  STORAGE_ROUTES: z.string().default(""),
+  // JSON object of tenant to bearer token; X-Tenant-ID is only honoured
+  // with the matching token
+  TENANT_TOKENS: z.string().default(""),
+  // Object keys: {prefix}/{shards}/{id}{extension}, extensions probed in
+  // order. Uploads are stored as .zip, so .zip must be one of them or
+  // uploaded files could never be found.
+  OBJECT_KEY_PREFIX: z
+    .string()
+    .default("downloads")
+    .transform((val) => val.replace(/^\/+|\/+$/g, ""))
+    .pipe(z.string().regex(KEY_PREFIX_PATTERN, "Invalid key prefix")),
+  OBJECT_KEY_SHARD_DEPTH: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .max(MAX_SHARD_DEPTH)
+    .default(0),
+  OBJECT_KEY_EXTENSIONS: z
+    .string()
+    .default(".zip")
+    .transform((val) => val.split(",").map((extension) => extension.trim()))
+    .pipe(
+      z
+        .array(z.string().regex(KEY_EXTENSION_PATTERN, "Invalid extension"))
+        .min(1)
+        .refine((extensions) => extensions.includes(UPLOAD_EXTENSION), {
+          message: `Must include ${UPLOAD_EXTENSION}, the extension uploads are stored under`,
+        }),
+    ),
+  // Mock backend: sizes, content and delays are derived from the seed and
+  // the file ID; the optional JSON manifest pins individual files down
+  MOCK_SEED: z.string().default(""),
+  MOCK_FIXTURES_PATH: z.string().optional(),
+  // Backoff for throttling, 5xx and network errors (NotFound is never retried)
+  S3_RETRY_BASE_MS: z.coerce.number().int().min(1).default(100),
+  S3_RETRY_MAX_DELAY_MS: z.coerce.number().int().min(1).default(5000),
+  S3_RETRY_BUDGET_MS: z.coerce.number().int().min(0).default(15000),
+  // Lifetime of presigned download URLs (SigV4 allows at most 7 days)
+  DOWNLOAD_URL_EXPIRY_SECONDS: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(604800)
+    .default(3600),
+  // Mock mode links point back at this service (/v1/download/redeem/:token)
+  PUBLIC_URL: optionalUrl,
+  DOWNLOAD_TOKEN_SECRET: z.string().default(""), // empty = random per process
+  DOWNLOAD_TOKEN_SINGLE_USE: z.stringbool().default(false),
+  // POST /v1/files: largest accepted file, declared types it may carry and
+  // how long one upload may take (instead of REQUEST_TIMEOUT_MS)
+  UPLOAD_MAX_BYTES: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .default(1024 * 1024 * 1024), // 1 GiB
+  UPLOAD_ALLOWED_CONTENT_TYPES: z
+    .string()
+    .default("application/zip,application/x-zip-compressed")
+    .transform((val) =>
+      val.split(",").map((type) => type.trim().toLowerCase()),
+    ),
+  UPLOAD_TIMEOUT_MS: z.coerce.number().int().min(1000).default(600000), // 10 minutes
+  // HeadObject requests in flight per /v1/download/check-batch call
+  CHECK_BATCH_CONCURRENCY: z.coerce.number().int().min(1).default(16),
   SENTRY_DSN: optionalUrl,
   OTEL_EXPORTER_OTLP_ENDPOINT: optionalUrl,
   REQUEST_TIMEOUT_MS: z.coerce.number().int().min(1000).default(30000),
@@ -54,25 +185,140 @@ const EnvSchema = z.object({
   DOWNLOAD_DELAY_MIN_MS: z.coerce.number().int().min(0).default(10000), // 10 seconds
   DOWNLOAD_DELAY_MAX_MS: z.coerce.number().int().min(0).default(200000), // 200 seconds
   DOWNLOAD_DELAY_ENABLED: z.coerce.boolean().default(true),
+  // How often a processing file reports progress (and the minimum gap
+  // between job.progress events)
+  JOB_PROGRESS_INTERVAL_MS: z.coerce.number().int().min(250).default(5000),
+  // Job event streams (SSE comment sent while no events are flowing)
+  SSE_HEARTBEAT_MS: z.coerce.number().int().min(1000).default(15000),
+  // Job subscription WebSocket (token required when set)
+  WS_AUTH_TOKEN: z.string().optional(),
+  // Bearer token that may read and cancel every client's jobs; without it
+  // callers only reach the jobs they submitted
+  JOBS_ADMIN_TOKEN: z.string().optional(),
+  WS_PING_INTERVAL_MS: z.coerce.number().int().min(1000).default(30000),
+  WS_MAX_BUFFERED_BYTES: z.coerce.number().int().min(1024).default(1048576), // 1 MiB
+  WS_MAX_SUBSCRIPTIONS: z.coerce.number().int().min(1).default(500),
+  // Webhook callbacks (HMAC-SHA256 signing key, required to accept callbackUrl)
+  WEBHOOK_SECRET: z.string().default(""),
+  WEBHOOK_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(5),
+  WEBHOOK_RETRY_BASE_MS: z.coerce.number().int().min(100).default(1000),
+  WEBHOOK_TIMEOUT_MS: z.coerce.number().int().min(1000).default(10000),
+  // Hosts callbacks may reach even though they are internal addresses
+  WEBHOOK_ALLOWED_HOSTS: z
+    .string()
+    .default("")
+    .transform((val) =>
+      val
+        .split(",")
+        .map((host) => host.trim().toLowerCase())
+        .filter((host) => host !== ""),
+    ),
+  // How long a completed Idempotency-Key replays its original response
+  IDEMPOTENCY_TTL_MS: z.coerce.number().int().min(1000).default(86400000), // 24 hours
+  // Worker pool shared by /v1/download/start and download jobs
+  WORKER_CONCURRENCY: z.coerce.number().int().min(1).default(50),
+  WORKER_MAX_QUEUE: z.coerce.number().int().min(0).default(5000),
+  // Multipart part size for S3 writes such as job bundles (minimum 5 MiB)
+  BUNDLE_PART_SIZE_BYTES: z.coerce
+    .number()
+    .int()
+    .min(5 * 1024 * 1024)
+    .default(8 * 1024 * 1024),
+  // Where jobs, job events and webhook deliveries are kept
+  JOB_STORE: z.enum(JOB_STORE_KINDS).default("memory"),
+  JOB_STORE_PATH: z.string().min(1).default("data/jobs.db"),
+  // Finished jobs are deleted this long after completion
+  JOB_TTL_MS: z.coerce.number().int().min(1000).default(86400000), // 24 hours
+  JOB_SWEEP_INTERVAL_MS: z.coerce.number().int().min(1000).default(60000),
 });
 
 // Parse and validate environment
 const env = EnvSchema.parse(process.env);
 
-// S3 Client
-const s3Client = new S3Client({
-  region: env.S3_REGION,
-  ...(env.S3_ENDPOINT && { endpoint: env.S3_ENDPOINT }),
-  ...(env.S3_ACCESS_KEY_ID &&
-    env.S3_SECRET_ACCESS_KEY && {
-      credentials: {
-        accessKeyId: env.S3_ACCESS_KEY_ID,
-        secretAccessKey: env.S3_SECRET_ACCESS_KEY,
-      },
+// S3 Client, one per bucket route; unset fields fall back to S3_*
+const createS3Client = ({
+  region = env.S3_REGION,
+  endpoint = env.S3_ENDPOINT,
+  accessKeyId = env.S3_ACCESS_KEY_ID,
+  secretAccessKey = env.S3_SECRET_ACCESS_KEY,
+  forcePathStyle = env.S3_FORCE_PATH_STYLE,
+}: Partial<
+  Pick<
+    StorageRouteConfig,
+    "region" | "endpoint" | "accessKeyId" | "secretAccessKey" | "forcePathStyle"
+  >
+> = {}) =>
+  new S3Client({
+    region,
+    ...(endpoint && { endpoint }),
+    ...(accessKeyId &&
+      secretAccessKey && {
+        credentials: { accessKeyId, secretAccessKey },
+      }),
+    forcePathStyle,
+    // Retries happen in s3Retry so they respect S3_RETRY_BUDGET_MS
+    maxAttempts: 1,
+  });
+
+const s3Client = createS3Client();
+
+const s3Retry = createS3Retry({
+  baseDelayMs: env.S3_RETRY_BASE_MS,
+  maxDelayMs: env.S3_RETRY_MAX_DELAY_MS,
+  budgetMs: env.S3_RETRY_BUDGET_MS,
+});
+
+// Where files are read from and bundles written to
+const storageKind = env.STORAGE_BACKEND ?? (env.S3_BUCKET_NAME ? "s3" : "mock");
+if (storageKind === "s3" && !env.S3_BUCKET_NAME) {
+  throw new Error("STORAGE_BACKEND=s3 requires S3_BUCKET_NAME");
+}
+const mockFiles = createMockFiles({
+  seed: env.MOCK_SEED,
+  ...(storageKind === "mock" &&
+    env.MOCK_FIXTURES_PATH && {
+      manifest: loadMockManifest(env.MOCK_FIXTURES_PATH),
+    }),
+});
+const storage = createStorage(storageKind, {
+  s3: {
+    client: s3Client,
+    bucket: env.S3_BUCKET_NAME,
+    retry: s3Retry,
+    partSizeBytes: env.BUNDLE_PART_SIZE_BYTES,
+  },
+  localDirectory: env.LOCAL_STORAGE_DIR,
+  mock: { files: mockFiles },
+});
+const storageRoutes = parseStorageRoutes(env.STORAGE_ROUTES);
+const tenantTokens = parseTenantTokens(env.TENANT_TOKENS, storageRoutes);
+const storageRouter = createStorageRouter({
+  fallback: storage,
+  routes: storageRoutes,
+  createTarget: (route) =>
+    createS3Storage({
+      client: createS3Client(route),
+      bucket: route.bucket,
+      retry: s3Retry,
+      partSizeBytes: env.BUNDLE_PART_SIZE_BYTES,
     }),
-  forcePathStyle: env.S3_FORCE_PATH_STYLE,
 });
 
+// Where each file ID is looked up
+const keyLayout = createKeyLayout({
+  prefix: env.OBJECT_KEY_PREFIX,
+  shardDepth: env.OBJECT_KEY_SHARD_DEPTH,
+  extensions: env.OBJECT_KEY_EXTENSIONS,
+});
+
+// Signs download links for backends that cannot presign
+const downloadTokens = createDownloadTokens({
+  secret: env.DOWNLOAD_TOKEN_SECRET,
+  ttlSeconds: env.DOWNLOAD_URL_EXPIRY_SECONDS,
+  singleUse: env.DOWNLOAD_TOKEN_SINGLE_USE,
+});
+const publicUrl = env.PUBLIC_URL ?? `http://localhost:${String(env.PORT)}`;
+
 // Initialize OpenTelemetry SDK
 const otelSDK = new NodeSDK({
   resource: resourceFromAttributes({
@@ -82,7 +328,17 @@ const otelSDK = new NodeSDK({
 });
 otelSDK.start();
 
+// Variables set on the request context by our middleware
+declare module "hono" {
+  interface ContextVariableMap {
+    requestId: string;
+    // Authenticated X-Tenant-ID, null when none was sent
+    tenant: string | null;
+  }
+}
+
 const app = new OpenAPIHono();
+const nodeWebSocket = createNodeWebSocket({ app });
 
 // Request ID middleware - adds unique ID to each request
 app.use(async (c, next) => {
@@ -99,19 +355,87 @@ app.use(secureHeaders());
 app.use(
   cors({
     origin: env.CORS_ORIGINS,
-    allowMethods: ["GET", "POST", "OPTIONS"],
-    allowHeaders: ["Content-Type", "Authorization", "X-Request-ID"],
+    allowMethods: ["GET", "POST", "DELETE", "OPTIONS"],
+    allowHeaders: [
+      "Content-Type",
+      "Authorization",
+      "X-Request-ID",
+      "Last-Event-ID",
+      "Idempotency-Key",
+      "X-Tenant-ID",
+    ],
     exposeHeaders: [
       "X-Request-ID",
       "X-RateLimit-Limit",
       "X-RateLimit-Remaining",
+      "Idempotent-Replayed",
     ],
     maxAge: 86400,
   }),
 );
 
-// Request timeout middleware
-app.use(timeout(env.REQUEST_TIMEOUT_MS));
+// Request timeout middleware; uploads last as long as the client takes to
+// send the file, so they get their own limit
+const requestTimeout = timeout(env.REQUEST_TIMEOUT_MS);
+const uploadTimeout = timeout(env.UPLOAD_TIMEOUT_MS);
+app.use((c, next) =>
+  c.req.method === "POST" && c.req.path === "/v1/files"
+    ? uploadTimeout(c, next)
+    : requestTimeout(c, next),
+);
+
+const tokenDigest = (token: string) =>
+  createHash("sha256").update(token).digest();
+
+const bearerToken = (c: Context): string | undefined =>
+  c.req.header("authorization")?.replace(/^Bearer\s+/i, "");
+
+// Tenant whose storage routes apply to the request's files. The tenant
+// chooses a bucket and its credentials, so X-Tenant-ID needs the tenant's
+// token from TENANT_TOKENS.
+app.use(async (c, next) => {
+  const tenant = c.req.header("x-tenant-id")?.trim() ?? "";
+  if (tenant === "") {
+    c.set("tenant", null);
+    return next();
+  }
+  const expected = tenantTokens.get(tenant);
+  if (
+    expected === undefined ||
+    !timingSafeEqual(tokenDigest(bearerToken(c) ?? ""), tokenDigest(expected))
+  ) {
+    return c.json(
+      {
+        error: "Unauthorized",
+        message: "Unknown tenant or invalid token",
+        requestId: c.get("requestId"),
+      },
+      401,
+    );
+  }
+  c.set("tenant", tenant);
+  await next();
+});
+
+// Client identity shared by the rate limiter and fair download scheduling
+const clientKey = (c: Context): string =>
+  c.req.header("x-forwarded-for")?.split(",")[0]?.trim() ??
+  c.req.header("x-real-ip") ??
+  "anonymous";
+
+// Jobs hold client IPs, callback URLs and live download links, so callers
+// only reach the jobs submitted under their own client key unless they
+// present JOBS_ADMIN_TOKEN
+const isJobsAdmin = (c: Context): boolean =>
+  !!env.JOBS_ADMIN_TOKEN &&
+  timingSafeEqual(
+    tokenDigest(bearerToken(c) ?? ""),
+    tokenDigest(env.JOBS_ADMIN_TOKEN),
+  );
+
+// Someone else's job is reported as not found
+const ownJob = (c: Context, job: Job | undefined): Job | undefined =>
+  job && (job.clientKey === clientKey(c) || isJobsAdmin(c)) ? job : undefined;
 
 // Rate limiting middleware
 app.use(
@@ -119,10 +443,7 @@ app.use(
     windowMs: env.RATE_LIMIT_WINDOW_MS,
     limit: env.RATE_LIMIT_MAX_REQUESTS,
     standardHeaders: "draft-6",
-    keyGenerator: (c) =>
-      c.req.header("x-forwarded-for")?.split(",")[0]?.trim() ??
-      c.req.header("x-real-ip") ??
-      "anonymous",
+    keyGenerator: clientKey,
   }),
 );
 
@@ -143,6 +464,14 @@ app.use(
   }),
 );
 
+// Idempotency-Key support for endpoints that create work
+const idempotencyMiddleware = idempotency({
+  ttlMs: env.IDEMPOTENCY_TTL_MS,
+  clientKey,
+});
+app.use("/v1/download/initiate", idempotencyMiddleware);
+app.use("/v1/download/start", idempotencyMiddleware);
+
 // Error response schema for OpenAPI
 const ErrorResponseSchema = z
   .object({
@@ -181,6 +510,8 @@ const HealthResponseSchema = z
     status: z.enum(["healthy", "unhealthy"]),
     checks: z.object({
       storage: z.enum(["ok", "error"]),
+      // Every storage route by name, "default" being the main backend
+      buckets: z.record(z.string(), z.enum(["ok", "error"])),
     }),
   })
   .openapi("HealthResponse");
@@ -193,6 +524,21 @@ const DownloadInitiateRequestSchema = z
       .min(1)
       .max(1000)
       .openapi({ description: "Array of file IDs (10K to 100M)" }),
+    priority: z.enum(PRIORITIES).default("normal").openapi({
+      description:
+        "Scheduling priority. Within a priority, clients are served round-robin",
+    }),
+    callbackUrl: z
+      .url({ protocol: /^https?$/ })
+      .optional()
+      .openapi({
+        description:
+          "URL to POST the signed job result to once every file finished. Must be a public host, internal addresses are refused",
+      }),
+    bundle: z.boolean().default(false).openapi({
+      description:
+        "Also pack every completed file into one zip with a single download URL",
+    }),
   })
   .openapi("DownloadInitiateRequest");
 
@@ -204,6 +550,156 @@ const DownloadInitiateResponseSchema = z
   })
   .openapi("DownloadInitiateResponse");
 
+const JobFileSchema = z
+  .object({
+    file_id: z.number().int(),
+    status: z.enum([
+      "queued",
+      "processing",
+      "completed",
+      "failed",
+      "cancelled",
+    ]),
+    downloadUrl: z
+      .string()
+      .nullable()
+      .openapi({ description: "Presigned download URL once completed" }),
+    expiresAt: z
+      .string()
+      .nullable()
+      .openapi({ description: "ISO 8601 timestamp the URL stops working" }),
+    size: z
+      .number()
+      .int()
+      .nullable()
+      .openapi({ description: "File size in bytes" }),
+    processingTimeMs: z
+      .number()
+      .int()
+      .nullable()
+      .openapi({ description: "Time taken to process the file in ms" }),
+    message: z.string().nullable().openapi({ description: "Status message" }),
+    retries: z.number().int().openapi({
+      description: "Times processing restarted after a service restart",
+    }),
+    phase: z
+      .enum(["waiting", "checking_storage", "preparing_url"])
+      .nullable()
+      .openapi({
+        description: "Step of a processing file, null while queued or done",
+      }),
+    progress: z.number().int().min(0).max(100),
+    etaMs: z.number().int().nullable().openapi({
+      description: "Estimated time left in ms, null when unknown",
+    }),
+  })
+  .openapi("JobFile");
+
+const JobBundleSchema = z
+  .object({
+    status: z.enum(["pending", "building", "completed", "failed", "cancelled"]),
+    key: z.string().nullable().openapi({ description: "S3 key of the zip" }),
+    downloadUrl: z
+      .string()
+      .nullable()
+      .openapi({ description: "Download URL for the whole bundle" }),
+    expiresAt: z
+      .string()
+      .nullable()
+      .openapi({ description: "ISO 8601 timestamp the URL stops working" }),
+    size: z
+      .number()
+      .int()
+      .nullable()
+      .openapi({ description: "Zip size in bytes" }),
+    fileCount: z
+      .number()
+      .int()
+      .nullable()
+      .openapi({ description: "Files included in the zip" }),
+    message: z.string().nullable().openapi({ description: "Status message" }),
+  })
+  .openapi("JobBundle");
+
+const DownloadStatusResponseSchema = z
+  .object({
+    jobId: z.string(),
+    status: z.enum(["queued", "processing", "completed", "cancelled"]),
+    createdAt: z.string().openapi({ description: "ISO 8601 timestamp" }),
+    updatedAt: z.string().openapi({ description: "ISO 8601 timestamp" }),
+    completedAt: z
+      .string()
+      .nullable()
+      .openapi({ description: "ISO 8601 timestamp once every file finished" }),
+    priority: z.enum(PRIORITIES),
+    clientKey: z.string(),
+    callbackUrl: z.string().nullable(),
+    progress: z.number().int().min(0).max(100).openapi({
+      description: "Mean progress across files",
+    }),
+    etaMs: z.number().int().nullable().openapi({
+      description:
+        "Estimated time left in ms, null while files are still queued",
+    }),
+    bundle: JobBundleSchema.nullable().openapi({
+      description: "Single-zip artifact, null unless requested at initiate",
+    }),
+    totalFileIds: z.number().int(),
+    completedFileIds: z.number().int(),
+    failedFileIds: z.number().int(),
+    cancelledFileIds: z.number().int(),
+    files: z.array(JobFileSchema),
+  })
+  .openapi("DownloadStatusResponse");
+
+const JobSummarySchema = DownloadStatusResponseSchema.omit({ files: true })
+  .extend({
+    file: JobFileSchema.optional().openapi({
+      description: "State of the file matched by the fileId filter",
+    }),
+  })
+  .openapi("JobSummary");
+
+const DownloadJobListResponseSchema = z
+  .object({
+    jobs: z.array(JobSummarySchema),
+    nextCursor: z.string().nullable().openapi({
+      description: "Pass as cursor to fetch the next page, null on the last",
+    }),
+  })
+  .openapi("DownloadJobListResponse");
+
+const WebhookDeliverySchema = z
+  .object({
+    deliveryId: z.string(),
+    url: z.string(),
+    status: z.enum(["pending", "delivered", "dead_letter"]),
+    attempts: z.array(
+      z.object({
+        attempt: z.number().int(),
+        attemptedAt: z.string(),
+        statusCode: z.number().int().nullable(),
+        error: z.string().nullable(),
+        durationMs: z.number().int(),
+      }),
+    ),
+    nextAttemptAt: z
+      .string()
+      .nullable()
+      .openapi({ description: "When the next retry is scheduled" }),
+    createdAt: z.string(),
+    completedAt: z.string().nullable(),
+  })
+  .openapi("WebhookDelivery");
+
+const DownloadDeliveriesResponseSchema = z
+  .object({
+    jobId: z.string(),
+    callbackUrl: z.string().nullable(),
+    deliveries: z.array(WebhookDeliverySchema),
+  })
+  .openapi("DownloadDeliveriesResponse");
+
 const DownloadCheckRequestSchema = z
   .object({
     file_id: z
@@ -219,18 +715,43 @@ const DownloadCheckResponseSchema = z
   .object({
     file_id: z.number().int(),
     available: z.boolean(),
-    s3Key: z
-      .string()
-      .nullable()
-      .openapi({ description: "S3 object key if available" }),
+    s3Key: z.string().nullable().openapi({
+      description:
+        "Object key that matched, the first configured extension found",
+    }),
     size: z
       .number()
       .int()
       .nullable()
       .openapi({ description: "File size in bytes" }),
+    reason: z
+      .enum(["not_found", "storage_unavailable", "storage_error"])
+      .nullable()
+      .openapi({
+        description:
+          "Why the file is unavailable: missing, storage still failing after retries, or a non-retryable storage error",
+      }),
   })
   .openapi("DownloadCheckResponse");
 
+const DownloadCheckBatchRequestSchema = z
+  .object({
+    file_ids: z
+      .array(z.number().int().min(10000).max(100000000))
+      .min(1)
+      .max(1000)
+      .openapi({ description: "Array of file IDs to check (10K to 100M)" }),
+  })
+  .openapi("DownloadCheckBatchRequest");
+
+const DownloadCheckBatchResponseSchema = z
+  .object({
+    results: z.array(DownloadCheckResponseSchema).openapi({
+      description: "One entry per distinct file ID, in request order",
+    }),
+  })
+  .openapi("DownloadCheckBatchResponse");
+
 const DownloadStartRequestSchema = z
   .object({
     file_id: z
@@ -250,6 +771,10 @@ const DownloadStartResponseSchema = z
       .string()
       .nullable()
       .openapi({ description: "Presigned download URL if successful" }),
+    expiresAt: z
+      .string()
+      .nullable()
+      .openapi({ description: "ISO 8601 timestamp the URL stops working" }),
     size: z
       .number()
       .int()
@@ -263,90 +788,438 @@ const DownloadStartResponseSchema = z
   })
   .openapi("DownloadStartResponse");
 
-// Input sanitization for S3 keys - prevent path traversal
-const sanitizeS3Key = (fileId: number): string => {
-  // Ensure fileId is a valid integer within bounds (already validated by Zod)
-  const sanitizedId = Math.floor(Math.abs(fileId));
-  // Construct safe S3 key without user-controlled path components
-  return `downloads/${String(sanitizedId)}.zip`;
+// The first of the file's candidate keys that exists. Rejects with
+// ObjectNotFoundError when none does, or with the storage error that
+// stopped the probe.
+const findObject = async (
+  fileId: number,
+  signal?: AbortSignal,
+  tenant: string | null = null,
+): Promise<ObjectInfo> => {
+  const { storage: target } = storageRouter.forFile(fileId, tenant);
+  const keys = keyLayout.candidates(fileId);
+  for (const key of keys) {
+    try {
+      return await target.head(key, signal);
+    } catch (err) {
+      if (!(err instanceof ObjectNotFoundError)) throw err;
+    }
+  }
+  throw new ObjectNotFoundError(keys.join(", "));
 };
 
-// S3 health check
-const checkS3Health = async (): Promise<boolean> => {
-  if (!env.S3_BUCKET_NAME) return true; // Mock mode
-  try {
-    // Use a lightweight HEAD request on a known path
-    const command = new HeadObjectCommand({
-      Bucket: env.S3_BUCKET_NAME,
-      Key: "__health_check_marker__",
-    });
-    await s3Client.send(command);
-    return true;
-  } catch (err) {
-    // NotFound is fine - bucket is accessible
-    if (err instanceof Error && err.name === "NotFound") return true;
-    // AccessDenied or other errors indicate connection issues
-    return false;
+// Link the client downloads the object from: presigned when the backend
+// can sign one, otherwise a service-signed link to /v1/download/redeem
+const presignDownload = async (
+  key: string,
+  target: StorageBackend = storage,
+): Promise<{ downloadUrl: string; expiresAt: string }> => {
+  // Only the default backend can lack presign, redeem reads from it
+  if (!target.presign) {
+    const { token, expiresAt } = downloadTokens.mint(key);
+    return {
+      downloadUrl: `${publicUrl}/v1/download/redeem/${token}`,
+      expiresAt,
+    };
   }
+
+  const expiresAt = new Date(
+    Date.now() + env.DOWNLOAD_URL_EXPIRY_SECONDS * 1000,
+  ).toISOString();
+  const downloadUrl = await target.presign(
+    key,
+    env.DOWNLOAD_URL_EXPIRY_SECONDS,
+  );
+  return { downloadUrl, expiresAt };
+};
+
+// Why a file is not available; also the downloads_failed_total reason label
+type UnavailableReason = "not_found" | "storage_unavailable" | "storage_error";
+
+const unavailableReason = (error: unknown): UnavailableReason => {
+  if (error instanceof ObjectNotFoundError) return "not_found";
+  if (error instanceof StorageUnavailableError) return "storage_unavailable";
+  if (error instanceof S3RetryExhaustedError) return "storage_unavailable";
+  const kind = classifyS3Error(error);
+  if (kind === "not_found") return "not_found";
+  return kind === "transient" ? "storage_unavailable" : "storage_error";
 };
 
-// S3 availability check
-const checkS3Availability = async (
+// Storage availability check
+const checkAvailability = async (
   fileId: number,
+  signal?: AbortSignal,
+  tenant: string | null = null,
 ): Promise<{
   available: boolean;
   s3Key: string | null;
   size: number | null;
+  reason: UnavailableReason | null;
 }> => {
-  const s3Key = sanitizeS3Key(fileId);
-
-
-  console.log(`[DEBUG] Checking S3 - Bucket: ${env.S3_BUCKET_NAME}, Key: ${s3Key}`);
-  // If no bucket configured, use mock mode
-  if (!env.S3_BUCKET_NAME) {
-    const available = fileId % 7 === 0;
-    return {
-      available,
-      s3Key: available ? s3Key : null,
-      size: available ? Math.floor(Math.random() * 10000000) + 1000 : null,
-    };
-  }
-
+  const { name, storage: target } = storageRouter.forFile(fileId, tenant);
+  console.log(
+    `[DEBUG] Checking storage - Backend: ${target.kind} (${name}), Keys: ${keyLayout.candidates(fileId).join(", ")}`,
+  );
   try {
-    const command = new HeadObjectCommand({
-      Bucket: env.S3_BUCKET_NAME,
-      Key: s3Key,
-    });
-    console.log(`[DEBUG] Sending HeadObjectCommand -> Bucket: '${env.S3_BUCKET_NAME}', Key: '${s3Key}'`);
-
-    const response = await s3Client.send(command);
-    
-    console.log(`[DEBUG] S3 Success Response:`, JSON.stringify(response, null, 2));
+    const object = await findObject(fileId, signal, tenant);
     return {
       available: true,
-      s3Key,
-      size: response.ContentLength ?? null,
+      s3Key: object.key,
+      size: object.size,
+      reason: null,
     };
-  } catch(error) {
-    console.error(`[DEBUG] S3 Failed:`, error);
+  } catch (error) {
+    // Cancellation is not an availability answer, let the caller handle it
+    if (signal?.aborted) throw error;
+    if (!(error instanceof ObjectNotFoundError)) {
+      console.error(`[DEBUG] Storage Failed:`, error);
+    }
     return {
       available: false,
       s3Key: null,
       size: null,
+      reason: unavailableReason(error),
     };
   }
 };
 
-// Random delay helper for simulating long-running downloads
-const getRandomDelay = (): number => {
-  if (!env.DOWNLOAD_DELAY_ENABLED) return 0;
+// Checks many IDs with at most CHECK_BATCH_CONCURRENCY HeadObject requests
+// in flight. Results are handed to onResult in completion order.
+const checkAvailabilityBatch = async (
+  fileIds: number[],
+  onResult: (
+    result: z.infer<typeof DownloadCheckResponseSchema>,
+  ) => void | Promise<void>,
+  signal?: AbortSignal,
+  tenant: string | null = null,
+): Promise<void> => {
+  let next = 0;
+  const worker = async () => {
+    while (next < fileIds.length) {
+      const fileId = fileIds[next++];
+      const result = await checkAvailability(fileId, signal, tenant);
+      await onResult({ file_id: fileId, ...result });
+    }
+  };
+  const workers = Math.min(env.CHECK_BATCH_CONCURRENCY, fileIds.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+};
+
+const unavailableMessages: Record<UnavailableReason, string> = {
+  not_found: "File not found",
+  storage_unavailable: "Storage temporarily unavailable",
+  storage_error: "Storage error",
+};
+
+// Random delay helper for simulating long-running downloads. The mock
+// backend picks the same delay for a file on every run, and a fixture delay
+// applies even with the simulation disabled.
+const getRandomDelay = (fileId: number): number => {
   const min = env.DOWNLOAD_DELAY_MIN_MS;
   const max = env.DOWNLOAD_DELAY_MAX_MS;
+  if (storageKind === "mock") {
+    const { delayMs } = mockFiles.get(fileId);
+    if (delayMs !== null) return delayMs;
+    return env.DOWNLOAD_DELAY_ENABLED ? mockFiles.delayMs(fileId, min, max) : 0;
+  }
+  if (!env.DOWNLOAD_DELAY_ENABLED) return 0;
   return Math.floor(Math.random() * (max - min + 1)) + min;
 };
 
-const sleep = (ms: number): Promise<void> =>
-  new Promise((resolve) => setTimeout(resolve, ms));
+// Rejects with the signal's reason when aborted before the delay elapses
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason as Error);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason as Error);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Share of the progress bar covered by the simulated wait, which is nearly
+// all of a download; the S3 check and URL take it the rest of the way
+const WAIT_PROGRESS_SHARE = 90;
+const PREPARING_URL_PROGRESS = 95;
+
+// Sleeps through the simulated delay, reporting progress along the way
+const waitWithProgress = async (
+  delayMs: number,
+  signal?: AbortSignal,
+  onProgress?: (update: DownloadProgress) => void,
+) => {
+  if (!onProgress) {
+    await sleep(delayMs, signal);
+    return;
+  }
+  const startedAt = Date.now();
+  for (;;) {
+    const elapsedMs = Date.now() - startedAt;
+    const remainingMs = Math.max(0, delayMs - elapsedMs);
+    onProgress({
+      phase: "waiting",
+      progress:
+        delayMs === 0
+          ? WAIT_PROGRESS_SHARE
+          : Math.floor((elapsedMs / delayMs) * WAIT_PROGRESS_SHARE),
+      etaMs: remainingMs,
+    });
+    if (remainingMs === 0) return;
+    await sleep(Math.min(remainingMs, env.JOB_PROGRESS_INTERVAL_MS), signal);
+  }
+};
+
+// A download up to its link. The link is made separately for every
+// response, so requests coalesced onto one download never share a
+// single-use token.
+type CheckedDownload =
+  | {
+      status: "completed";
+      key: string;
+      target: StorageBackend;
+      size: number | null;
+      processingTimeMs: number;
+    }
+  | (DownloadResult & { status: "failed" });
+
+const runDownload = async (
+  fileId: number,
+  signal?: AbortSignal,
+  onProgress?: (update: DownloadProgress) => void,
+  tenant: string | null = null,
+): Promise<CheckedDownload> => {
+  const startTime = Date.now();
+
+  // Get random delay and log it
+  const delayMs = getRandomDelay(fileId);
+  const delaySec = (delayMs / 1000).toFixed(1);
+  const minDelaySec = (env.DOWNLOAD_DELAY_MIN_MS / 1000).toFixed(0);
+  const maxDelaySec = (env.DOWNLOAD_DELAY_MAX_MS / 1000).toFixed(0);
+  console.log(
+    `[Download] Starting file_id=${String(fileId)} | delay=${delaySec}s (range: ${minDelaySec}s-${maxDelaySec}s) | enabled=${String(env.DOWNLOAD_DELAY_ENABLED)}`,
+  );
+
+  // Simulate long-running download process
+  await waitWithProgress(delayMs, signal, onProgress);
+
+  // Check if file is available in S3 with timing
+  onProgress?.({
+    phase: "checking_storage",
+    progress: WAIT_PROGRESS_SHARE,
+    etaMs: null,
+  });
+  const s3Timer = s3OperationTimer("HeadObject");
+  const s3Result = await checkAvailability(fileId, signal, tenant);
+  s3Timer(s3Result.available || s3Result.reason === "not_found");
+
+  const processingTimeMs = Date.now() - startTime;
+
+  console.log(
+    `[Download] Completed file_id=${String(fileId)}, actual_time=${String(processingTimeMs)}ms, available=${String(s3Result.available)}`,
+  );
+
+  if (s3Result.available) {
+    downloadCompleted(processingTimeMs / 1000);
+    return {
+      status: "completed",
+      key: s3Result.s3Key ?? "",
+      target: storageRouter.forFile(fileId, tenant).storage,
+      size: s3Result.size,
+      processingTimeMs,
+    };
+  }
+
+  const reason = s3Result.reason ?? "not_found";
+  downloadFailed(reason);
+  return {
+    status: "failed",
+    downloadUrl: null,
+    expiresAt: null,
+    size: null,
+    processingTimeMs,
+    message: `${unavailableMessages[reason]} after ${(processingTimeMs / 1000).toFixed(1)} seconds of processing`,
+  };
+};
+
+// Simulated long-running download shared by /v1/download/start and the job engine.
+// Aborting the signal stops the pending delay or S3 request.
+const processDownload = async (
+  fileId: number,
+  signal?: AbortSignal,
+  onProgress?: (update: DownloadProgress) => void,
+  tenant: string | null = null,
+): Promise<CheckedDownload> => {
+  // Track active download
+  downloadStarted();
+
+  try {
+    return await runDownload(fileId, signal, onProgress, tenant);
+  } catch (err) {
+    downloadFailed(signal?.aborted ? "cancelled" : "error");
+    if (signal?.aborted) {
+      console.log(`[Download] Cancelled file_id=${String(fileId)}`);
+    }
+    throw err;
+  }
+};
+
+// Finishes a checked download with a fresh link
+const linkDownload = async (
+  download: CheckedDownload,
+  onProgress?: (update: DownloadProgress) => void,
+): Promise<DownloadResult> => {
+  if (download.status === "failed") return download;
+  onProgress?.({
+    phase: "preparing_url",
+    progress: PREPARING_URL_PROGRESS,
+    etaMs: null,
+  });
+  const { key, target, size, processingTimeMs } = download;
+  return {
+    status: "completed",
+    ...(await presignDownload(key, target)),
+    size,
+    processingTimeMs,
+    message: `Download ready after ${(processingTimeMs / 1000).toFixed(1)} seconds`,
+  };
+};
+
+// Bounds how many downloads run at once across the sync and job routes
+const workerPool = createWorkerPool({
+  concurrency: env.WORKER_CONCURRENCY,
+  maxQueue: env.WORKER_MAX_QUEUE,
+});
+
+// Suggested wait when the queue is full: roughly one average download
+const queueRetryAfterSeconds = env.DOWNLOAD_DELAY_ENABLED
+  ? Math.max(
+      1,
+      Math.ceil((env.DOWNLOAD_DELAY_MIN_MS + env.DOWNLOAD_DELAY_MAX_MS) / 2000),
+    )
+  : 1;
+
+// Concurrent /v1/download/start requests for the same file share one
+// download, keyed by storage route and file ID
+const inFlightDownloads = new Map<string, Promise<CheckedDownload>>();
+
+const startDownload = async (
+  fileId: number,
+  client: string,
+  priority: Priority = "normal",
+  tenant: string | null = null,
+): Promise<DownloadResult> => {
+  const key = `${storageRouter.forFile(fileId, tenant).name}/${String(fileId)}`;
+  const inFlight = inFlightDownloads.get(key);
+  if (inFlight) {
+    downloadCoalesced();
+    return linkDownload(await inFlight);
+  }
+  const download = workerPool
+    .run(() => processDownload(fileId, undefined, undefined, tenant), {
+      priority,
+      clientKey: client,
+    })
+    .finally(() => {
+      inFlightDownloads.delete(key);
+    });
+  inFlightDownloads.set(key, download);
+  return linkDownload(await download);
+};
+
+// Job status payload shared by the status route and webhook callbacks
+const toJobStatus = (job: Job) => {
+  const count = (status: string) =>
+    job.files.filter((file) => file.status === status).length;
+  return {
+    ...job,
+    totalFileIds: job.files.length,
+    completedFileIds: count("completed"),
+    failedFileIds: count("failed"),
+    cancelledFileIds: count("cancelled"),
+  };
+};
+
+const jobStore = createJobStore(env.JOB_STORE, env.JOB_STORE_PATH);
+
+const webhookDispatcher = createWebhookDispatcher({
+  store: jobStore,
+  secret: env.WEBHOOK_SECRET,
+  maxAttempts: env.WEBHOOK_MAX_ATTEMPTS,
+  baseDelayMs: env.WEBHOOK_RETRY_BASE_MS,
+  timeoutMs: env.WEBHOOK_TIMEOUT_MS,
+  allowedHosts: env.WEBHOOK_ALLOWED_HOSTS,
+});
+
+// Zips the completed files of jobs that ask for a bundle
+const bundler = createBundler({
+  storage,
+  findFile: async (fileId, signal, tenant) => ({
+    storage: storageRouter.forFile(fileId, tenant).storage,
+    key: (await findObject(fileId, signal, tenant)).key,
+  }),
+  keyForBundle: (jobId) => `bundles/${jobId}.zip`,
+  presignDownload,
+});
+
+// Streams objects for /v1/download/file/:fileId and /v1/download/redeem
+const fileProxy = createFileProxy();
+
+// Stores files sent to /v1/files
+const uploader = createUploader({
+  maxBytes: env.UPLOAD_MAX_BYTES,
+  allowedContentTypes: env.UPLOAD_ALLOWED_CONTENT_TYPES,
+});
+
+// Background job engine for /v1/download/initiate
+const jobEngine = createJobEngine({
+  store: jobStore,
+  pool: workerPool,
+  processFile: async (fileId, signal, onProgress, tenant) =>
+    linkDownload(
+      await processDownload(fileId, signal, onProgress, tenant),
+      onProgress,
+    ),
+  buildBundle: bundler.build,
+  progressIntervalMs: env.JOB_PROGRESS_INTERVAL_MS,
+  onJobFinished: (job) => {
+    if (job.callbackUrl) {
+      webhookDispatcher.deliver(job.jobId, job.callbackUrl, toJobStatus(job));
+    }
+  },
+});
+
+// Resume jobs a previous process left unfinished (only a persistent store
+// has any)
+const recovery = jobEngine.recover();
+if (recovery.jobs > 0) {
+  jobsRecovered(recovery.jobs, recovery.requeuedFiles, recovery.retriedFiles);
+  console.log(
+    `[Recovery] Resumed ${String(recovery.jobs)} unfinished jobs: ${String(recovery.requeuedFiles)} queued files requeued, ${String(recovery.retriedFiles)} interrupted files retried`,
+  );
+}
+const resumedDeliveries = webhookDispatcher.resume();
+if (resumedDeliveries > 0) {
+  console.log(
+    `[Recovery] Resumed ${String(resumedDeliveries)} pending webhook deliveries`,
+  );
+}
+
+// Deletes finished jobs once JOB_TTL_MS has passed
+const jobSweeper = createJobSweeper({
+  store: jobStore,
+  ttlMs: env.JOB_TTL_MS,
+  intervalMs: env.JOB_SWEEP_INTERVAL_MS,
+  // Bundles are always written to the default backend
+  deleteBundle: (key) => storage.delete(key),
+});
+jobSweeper.sweep();
 
 // Routes
 const rootRoute = createRoute({
@@ -398,7 +1271,8 @@ app.openapi(rootRoute, (c) => {
 });
 
 app.openapi(healthRoute, async (c) => {
-  const storageHealthy = await checkS3Health();
+  const buckets = await storageRouter.health();
+  const storageHealthy = Object.values(buckets).every(Boolean);
   const status = storageHealthy ? "healthy" : "unhealthy";
   const httpStatus = storageHealthy ? 200 : 503;
   return c.json(
@@ -406,6 +1280,12 @@ app.openapi(healthRoute, async (c) => {
       status,
       checks: {
         storage: storageHealthy ? "ok" : "error",
+        buckets: Object.fromEntries(
+          Object.entries(buckets).map(([name, healthy]) => [
+            name,
+            healthy ? "ok" : "error",
+          ]),
+        ) as Record<string, "ok" | "error">,
       },
     },
     httpStatus,
@@ -420,8 +1300,14 @@ const downloadInitiateRoute = createRoute({
   summary: "Initiate download job",
   description: "Initiates a download job for multiple IDs",
   request: {
-    body: {
-      content: {
+    headers: z.object({
+      "idempotency-key": z.string().min(1).max(255).optional().openapi({
+        description:
+          "Retries with the same key return the original response instead of repeating the work",
+      }),
+    }),
+    body: {
+      content: {
         "application/json": {
           schema: DownloadInitiateRequestSchema,
         },
@@ -430,23 +1316,1037 @@ const downloadInitiateRoute = createRoute({
   },
   responses: {
     200: {
-      description: "Download job initiated",
+      description: "Download job initiated",
+      content: {
+        "application/json": {
+          schema: DownloadInitiateResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid request",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    422: {
+      description: "Idempotency-Key reused with a different body",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Internal server error",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    503: {
+      description: "Download queue is full, retry after the Retry-After delay",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+// Download Status Route - polls a job created by /v1/download/initiate
+const downloadStatusRoute = createRoute({
+  method: "get",
+  path: "/v1/download/status/{jobId}",
+  tags: ["Download"],
+  summary: "Get download job status",
+  description: "Returns the overall and per-file state of a download job",
+  request: {
+    params: z.object({
+      jobId: z.uuid().openapi({ description: "Job ID from /initiate" }),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Current job state",
+      content: {
+        "application/json": {
+          schema: DownloadStatusResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid job ID",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Job not found",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    410: {
+      description: "Job expired and its results were deleted",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+// Download Job List Route - search jobs for support and debugging
+const downloadJobListRoute = createRoute({
+  method: "get",
+  path: "/v1/download/jobs",
+  tags: ["Download"],
+  summary: "List download jobs",
+  description:
+    "Lists the caller's jobs newest first, optionally filtered; every client's jobs with Authorization: Bearer <JOBS_ADMIN_TOKEN>. Follow nextCursor to page through the results.",
+  request: {
+    query: z.object({
+      status: z
+        .enum(["queued", "processing", "completed", "cancelled"])
+        .optional(),
+      createdAfter: z.iso.datetime({ offset: true }).optional().openapi({
+        description: "Only jobs created at or after this ISO 8601 time",
+      }),
+      createdBefore: z.iso.datetime({ offset: true }).optional().openapi({
+        description: "Only jobs created before this ISO 8601 time",
+      }),
+      clientKey: z.string().min(1).optional().openapi({
+        description:
+          "Only jobs submitted by this client (forwarded IP). Needs JOBS_ADMIN_TOKEN; other callers only see their own jobs.",
+      }),
+      fileId: z.coerce.number().int().optional().openapi({
+        description: "Only jobs that include this file ID",
+      }),
+      cursor: z.string().optional().openapi({
+        description: "nextCursor from the previous page",
+      }),
+      limit: z.coerce.number().int().min(1).max(100).default(20),
+    }),
+  },
+  responses: {
+    200: {
+      description: "One page of jobs",
+      content: {
+        "application/json": {
+          schema: DownloadJobListResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid filter or cursor",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+// Download Job Events Route - SSE stream of job state transitions
+const downloadJobEventsRoute = createRoute({
+  method: "get",
+  path: "/v1/download/jobs/{jobId}/events",
+  tags: ["Download"],
+  summary: "Stream download job events",
+  description: `Server-Sent Events stream of job state transitions (job.queued, job.processing, job.progress, file.processing, file.progress, file.retried, file.completed, file.failed, file.cancelled, bundle.*, job.completed, job.cancelled).
+    A heartbeat comment is sent every ${String(env.SSE_HEARTBEAT_MS / 1000)}s. Reconnect with the Last-Event-ID header (or lastEventId query) to resume.
+    The stream closes after job.completed or job.cancelled.`,
+  request: {
+    params: z.object({
+      jobId: z.uuid().openapi({ description: "Job ID from /initiate" }),
+    }),
+    query: z.object({
+      lastEventId: z.coerce.number().int().min(0).optional().openapi({
+        description: "Resume after this event ID (for clients without headers)",
+      }),
+    }),
+    headers: z.object({
+      "last-event-id": z.coerce.number().int().min(0).optional(),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Event stream",
+      content: {
+        "text/event-stream": {
+          schema: z.string(),
+        },
+      },
+    },
+    400: {
+      description: "Invalid job ID",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Job not found",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+// Download Deliveries Route - webhook delivery attempts for a job
+const downloadDeliveriesRoute = createRoute({
+  method: "get",
+  path: "/v1/download/jobs/{jobId}/deliveries",
+  tags: ["Download"],
+  summary: "List webhook deliveries",
+  description:
+    "Returns every callbackUrl delivery for a job with its attempts, including dead-lettered deliveries",
+  request: {
+    params: z.object({
+      jobId: z.uuid().openapi({ description: "Job ID from /initiate" }),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Webhook deliveries",
+      content: {
+        "application/json": {
+          schema: DownloadDeliveriesResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid job ID",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Job not found",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+// Download Cancel Routes - stop a whole job or a single file
+const jobErrorResponses = {
+  400: {
+    description: "Invalid request",
+    content: {
+      "application/json": {
+        schema: ErrorResponseSchema,
+      },
+    },
+  },
+  404: {
+    description: "Job or file not found",
+    content: {
+      "application/json": {
+        schema: ErrorResponseSchema,
+      },
+    },
+  },
+  409: {
+    description: "Already finished, nothing to cancel",
+    content: {
+      "application/json": {
+        schema: ErrorResponseSchema,
+      },
+    },
+  },
+};
+
+const downloadCancelJobRoute = createRoute({
+  method: "delete",
+  path: "/v1/download/jobs/{jobId}",
+  tags: ["Download"],
+  summary: "Cancel download job",
+  description:
+    "Cancels every unfinished file of a job, aborting pending delays and S3 requests. The job is marked cancelled.",
+  request: {
+    params: z.object({
+      jobId: z.uuid().openapi({ description: "Job ID from /initiate" }),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Job cancelled, in-flight files settle shortly after",
+      content: {
+        "application/json": {
+          schema: DownloadStatusResponseSchema,
+        },
+      },
+    },
+    ...jobErrorResponses,
+  },
+});
+
+const downloadCancelFileRoute = createRoute({
+  method: "delete",
+  path: "/v1/download/jobs/{jobId}/files/{fileId}",
+  tags: ["Download"],
+  summary: "Cancel one file of a download job",
+  description:
+    "Cancels a single file of a job. The rest of the job keeps running.",
+  request: {
+    params: z.object({
+      jobId: z.uuid().openapi({ description: "Job ID from /initiate" }),
+      fileId: z.coerce
+        .number()
+        .int()
+        .min(10000)
+        .max(100000000)
+        .openapi({ description: "File ID within the job" }),
+    }),
+  },
+  responses: {
+    200: {
+      description: "File cancelled",
+      content: {
+        "application/json": {
+          schema: DownloadStatusResponseSchema,
+        },
+      },
+    },
+    ...jobErrorResponses,
+  },
+});
+
+const downloadCheckRoute = createRoute({
+  method: "post",
+  path: "/v1/download/check",
+  tags: ["Download"],
+  summary: "Check download availability",
+  description:
+    "Checks if a single ID is available for download in S3. Add ?sentry_test=true to trigger an error for Sentry testing.",
+  request: {
+    query: z.object({
+      sentry_test: z.string().optional().openapi({
+        description:
+          "Set to 'true' to trigger an intentional error for Sentry testing",
+      }),
+    }),
+    body: {
+      content: {
+        "application/json": {
+          schema: DownloadCheckRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Availability check result",
+      content: {
+        "application/json": {
+          schema: DownloadCheckResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid request",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Internal server error",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+const downloadCheckBatchRoute = createRoute({
+  method: "post",
+  path: "/v1/download/check-batch",
+  tags: ["Download"],
+  summary: "Check download availability for many IDs",
+  description: `Checks up to 1000 IDs in one request, running at most ${String(env.CHECK_BATCH_CONCURRENCY)} S3 lookups at a time. Duplicate IDs are checked once.
+    Send Accept: application/x-ndjson to receive one DownloadCheckResponse per line as each check finishes.`,
+  request: {
+    body: {
+      content: {
+        "application/json": {
+          schema: DownloadCheckBatchRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Availability check results",
+      content: {
+        "application/json": {
+          schema: DownloadCheckBatchResponseSchema,
+        },
+        "application/x-ndjson": {
+          schema: z.string().openapi({
+            description: "Newline-delimited DownloadCheckResponse objects",
+          }),
+        },
+      },
+    },
+    400: {
+      description: "Invalid request",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+app.openapi(downloadInitiateRoute, async (c) => {
+  const { file_ids, priority, callbackUrl, bundle } = c.req.valid("json");
+  if (callbackUrl && !env.WEBHOOK_SECRET) {
+    return c.json(
+      {
+        error: "Bad Request",
+        message: "Webhook callbacks are not configured on this server",
+        requestId: c.get("requestId"),
+      },
+      400,
+    );
+  }
+  const refused =
+    callbackUrl && (await webhookDispatcher.checkUrl(callbackUrl));
+  if (refused) {
+    return c.json(
+      {
+        error: "Bad Request",
+        message: refused,
+        requestId: c.get("requestId"),
+      },
+      400,
+    );
+  }
+  // Every file takes a worker slot, and so does the bundle after them
+  if (workerPool.capacity() < new Set(file_ids).size + (bundle ? 1 : 0)) {
+    c.header("Retry-After", String(queueRetryAfterSeconds));
+    return c.json(
+      {
+        error: "Service Unavailable",
+        message: "Download queue is full, retry later",
+        requestId: c.get("requestId"),
+      },
+      503,
+    );
+  }
+  const job = jobEngine.createJob(file_ids, {
+    priority,
+    clientKey: clientKey(c),
+    tenant: c.get("tenant"),
+    callbackUrl,
+    bundle,
+  });
+  return c.json(
+    {
+      jobId: job.jobId,
+      status: "queued" as const,
+      totalFileIds: job.files.length,
+    },
+    200,
+  );
+});
+
+app.openapi(downloadStatusRoute, (c) => {
+  const { jobId } = c.req.valid("param");
+  const job = ownJob(c, jobEngine.getJob(jobId));
+  if (!job && jobStore.isJobExpired(jobId)) {
+    return c.json(
+      {
+        error: "Gone",
+        message: `Job ${jobId} expired and its results were deleted`,
+        requestId: c.get("requestId") as string | undefined,
+      },
+      410,
+    );
+  }
+  if (!job) {
+    return c.json(
+      {
+        error: "Not Found",
+        message: `Job ${jobId} not found`,
+        requestId: c.get("requestId") as string | undefined,
+      },
+      404,
+    );
+  }
+  return c.json(toJobStatus(job), 200);
+});
+
+app.openapi(downloadJobListRoute, (c) => {
+  const { cursor, createdAfter, createdBefore, ...filters } =
+    c.req.valid("query");
+  const after = cursor === undefined ? undefined : decodeJobCursor(cursor);
+  if (cursor !== undefined && !after) {
+    return c.json(
+      {
+        error: "Bad Request",
+        message: "Invalid cursor",
+        requestId: c.get("requestId") as string | undefined,
+      },
+      400,
+    );
+  }
+
+  // Stored timestamps are UTC toISOString() values, compare like with like
+  const toUtc = (value?: string) =>
+    value === undefined ? undefined : new Date(value).toISOString();
+  const page = jobStore.listJobs({
+    ...filters,
+    clientKey: isJobsAdmin(c) ? filters.clientKey : clientKey(c),
+    createdAfter: toUtc(createdAfter),
+    createdBefore: toUtc(createdBefore),
+    after,
+  });
+  return c.json(
+    {
+      jobs: page.jobs,
+      nextCursor: page.next && encodeJobCursor(page.next),
+    },
+    200,
+  );
+});
+
+app.openapi(downloadDeliveriesRoute, (c) => {
+  const { jobId } = c.req.valid("param");
+  const job = ownJob(c, jobEngine.getJob(jobId));
+  if (!job) {
+    return c.json(
+      {
+        error: "Not Found",
+        message: `Job ${jobId} not found`,
+        requestId: c.get("requestId"),
+      },
+      404,
+    );
+  }
+  return c.json(
+    {
+      jobId,
+      callbackUrl: job.callbackUrl,
+      deliveries: webhookDispatcher.getDeliveries(jobId),
+    },
+    200,
+  );
+});
+
+app.openapi(downloadJobEventsRoute, (c) => {
+  const { jobId } = c.req.valid("param");
+  const { lastEventId } = c.req.valid("query");
+  const headers = c.req.valid("header");
+  if (!ownJob(c, jobEngine.getJob(jobId))) {
+    return c.json(
+      {
+        error: "Not Found",
+        message: `Job ${jobId} not found`,
+        requestId: c.get("requestId"),
+      },
+      404,
+    );
+  }
+
+  return streamSSE(c, async (stream) => {
+    // Read the backlog, then subscribe in the same tick: both calls are
+    // synchronous, so no transition can land between them
+    const pending = jobEngine.getEvents(
+      jobId,
+      headers["last-event-id"] ?? lastEventId,
+    );
+    let wake: (() => void) | undefined;
+    const unsubscribe = jobEngine.subscribe(jobId, (event) => {
+      pending.push(event);
+      wake?.();
+    });
+    // Keep idle connections alive through proxies and the timeout middleware
+    const heartbeat = setInterval(() => {
+      void stream.write(": heartbeat\n\n");
+    }, env.SSE_HEARTBEAT_MS);
+    stream.onAbort(() => {
+      wake?.();
+    });
+
+    try {
+      while (!stream.aborted) {
+        const event = pending.shift();
+        if (!event) {
+          // Resumed after the final event, nothing more will arrive
+          const job = jobEngine.getJob(jobId);
+          if (!job || isJobFinished(job)) break;
+          await new Promise<void>((resolve) => {
+            wake = resolve;
+          });
+          wake = undefined;
+          continue;
+        }
+        await stream.writeSSE({
+          id: String(event.id),
+          event: event.type,
+          data: JSON.stringify(event.data),
+        });
+        if (isFinalEvent(event)) break;
+      }
+    } finally {
+      clearInterval(heartbeat);
+      unsubscribe();
+    }
+  });
+});
+
+// Job subscription WebSocket - follow many jobs over one connection
+app.get(
+  "/v1/download/ws",
+  async (c, next) => {
+    if (env.WS_AUTH_TOKEN) {
+      // Browsers cannot set headers on WebSocket, so accept ?token= as well
+      const token = bearerToken(c) ?? c.req.query("token") ?? "";
+      if (
+        !timingSafeEqual(tokenDigest(token), tokenDigest(env.WS_AUTH_TOKEN))
+      ) {
+        return c.json(
+          {
+            error: "Unauthorized",
+            message: "Missing or invalid token",
+            requestId: c.get("requestId"),
+          },
+          401,
+        );
+      }
+    }
+    await next();
+  },
+  nodeWebSocket.upgradeWebSocket(
+    createJobSocket({
+      jobEngine,
+      pingIntervalMs: env.WS_PING_INTERVAL_MS,
+      maxBufferedBytes: env.WS_MAX_BUFFERED_BYTES,
+      maxSubscriptions: env.WS_MAX_SUBSCRIPTIONS,
+    }),
+  ),
+);
+
+app.openapi(downloadCancelJobRoute, (c) => {
+  const { jobId } = c.req.valid("param");
+  const result = ownJob(c, jobEngine.getJob(jobId))
+    ? jobEngine.cancelJob(jobId)
+    : "not_found";
+  const job = jobEngine.getJob(jobId);
+  if (result === "not_found" || !job) {
+    return c.json(
+      {
+        error: "Not Found",
+        message: `Job ${jobId} not found`,
+        requestId: c.get("requestId"),
+      },
+      404,
+    );
+  }
+  if (result === "finished") {
+    return c.json(
+      {
+        error: "Conflict",
+        message: `Job ${jobId} already finished`,
+        requestId: c.get("requestId"),
+      },
+      409,
+    );
+  }
+  console.log(`[Download] Cancelled job=${jobId}`);
+  return c.json(toJobStatus(job), 200);
+});
+
+app.openapi(downloadCancelFileRoute, (c) => {
+  const { jobId, fileId } = c.req.valid("param");
+  const result = ownJob(c, jobEngine.getJob(jobId))
+    ? jobEngine.cancelFile(jobId, fileId)
+    : "not_found";
+  const job = jobEngine.getJob(jobId);
+  if (result === "not_found" || !job) {
+    return c.json(
+      {
+        error: "Not Found",
+        message: `File ${String(fileId)} of job ${jobId} not found`,
+        requestId: c.get("requestId"),
+      },
+      404,
+    );
+  }
+  if (result === "finished") {
+    return c.json(
+      {
+        error: "Conflict",
+        message: `File ${String(fileId)} of job ${jobId} already finished`,
+        requestId: c.get("requestId"),
+      },
+      409,
+    );
+  }
+  return c.json(toJobStatus(job), 200);
+});
+
+app.openapi(downloadCheckRoute, async (c) => {
+  const { sentry_test } = c.req.valid("query");
+  const { file_id } = c.req.valid("json");
+
+  // Intentional error for Sentry testing (hackathon challenge)
+  if (sentry_test === "true") {
+    throw new Error(
+      `Sentry test error triggered for file_id=${String(file_id)} - This should appear in Sentry!`,
+    );
+  }
+  // Inside your download route
+  console.log(`[DEBUG] Looking for file: ${String(file_id)}`);
+  const s3Result = await checkAvailability(file_id, undefined, c.get("tenant"));
+  return c.json(
+    {
+      file_id,
+      ...s3Result,
+    },
+    200,
+  );
+});
+
+// NDJSON variant of the batch check. Typed routes only accept JSON and text
+// responses, so the stream is answered here, ahead of the typed handler; an
+// invalid body falls through so the route's validator reports it as usual.
+app.post(downloadCheckBatchRoute.path, async (c, next) => {
+  if (!c.req.header("accept")?.includes("application/x-ndjson")) {
+    await next();
+    return;
+  }
+  const parsed = DownloadCheckBatchRequestSchema.safeParse(
+    await c.req.json().catch(() => undefined),
+  );
+  if (!parsed.success) {
+    await next();
+    return;
+  }
+  const fileIds = [...new Set(parsed.data.file_ids)];
+  const signal = c.req.raw.signal;
+  const tenant = c.get("tenant");
+  c.header("Content-Type", "application/x-ndjson");
+  return stream(c, async (stream) => {
+    await checkAvailabilityBatch(
+      fileIds,
+      async (result) => {
+        await stream.write(`${JSON.stringify(result)}\n`);
+      },
+      signal,
+      tenant,
+    );
+  });
+});
+
+app.openapi(downloadCheckBatchRoute, async (c) => {
+  const { file_ids } = c.req.valid("json");
+  const fileIds = [...new Set(file_ids)];
+  const signal = c.req.raw.signal;
+  const tenant = c.get("tenant");
+
+  const results = new Map<
+    number,
+    z.infer<typeof DownloadCheckResponseSchema>
+  >();
+  await checkAvailabilityBatch(
+    fileIds,
+    (result) => {
+      results.set(result.file_id, result);
+    },
+    signal,
+    tenant,
+  );
+  return c.json(
+    { results: fileIds.flatMap((fileId) => results.get(fileId) ?? []) },
+    200,
+  );
+});
+
+// Download Start Route - simulates long-running download with random delay
+const downloadStartRoute = createRoute({
+  method: "post",
+  path: "/v1/download/start",
+  tags: ["Download"],
+  summary: "Start file download (long-running)",
+  description: `Starts a file download with simulated processing delay.
+    Processing time varies randomly between ${String(env.DOWNLOAD_DELAY_MIN_MS / 1000)}s and ${String(env.DOWNLOAD_DELAY_MAX_MS / 1000)}s.
+    This endpoint demonstrates long-running operations that may timeout behind proxies.`,
+  request: {
+    headers: z.object({
+      "idempotency-key": z.string().min(1).max(255).optional().openapi({
+        description:
+          "Retries with the same key return the original response instead of repeating the work",
+      }),
+    }),
+    body: {
+      content: {
+        "application/json": {
+          schema: DownloadStartRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Download completed successfully",
+      content: {
+        "application/json": {
+          schema: DownloadStartResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid request",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    422: {
+      description: "Idempotency-Key reused with a different body",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Internal server error",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    503: {
+      description: "Download queue is full, retry after the Retry-After delay",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+app.openapi(downloadStartRoute, async (c) => {
+  const { file_id } = c.req.valid("json");
+  try {
+    const result = await startDownload(
+      file_id,
+      clientKey(c),
+      undefined,
+      c.get("tenant"),
+    );
+    return c.json({ file_id, ...result }, 200);
+  } catch (err) {
+    if (!(err instanceof QueueFullError)) throw err;
+    c.header("Retry-After", String(queueRetryAfterSeconds));
+    return c.json(
+      {
+        error: "Service Unavailable",
+        message: "Download queue is full, retry later",
+        requestId: c.get("requestId"),
+      },
+      503,
+    );
+  }
+});
+
+// OpenAPI spec endpoint (disabled in production)
+if (env.NODE_ENV !== "production") {
+  app.doc("/openapi", {
+    openapi: "3.0.0",
+    info: {
+      title: "Delineate Hackathon Challenge API",
+      version: "1.0.0",
+      description: "API for Delineate Hackathon Challenge",
+    },
+    servers: [{ url: "http://localhost:3000", description: "Local server" }],
+  });
+
+  // Scalar API docs
+  app.get("/docs", Scalar({ url: "/openapi" }));
+}
+
+// 404, 503 or 502 for a storage read that failed
+const storageErrorResponse = (
+  c: Context,
+  name: string,
+  err: unknown,
+): Response => {
+  const reason = unavailableReason(err);
+  if (reason === "not_found") {
+    return c.json(
+      {
+        error: "Not Found",
+        message: `File ${name} not found`,
+        requestId: c.get("requestId"),
+      },
+      404,
+    );
+  }
+  console.error(`[Proxy] Reading ${name} failed:`, err);
+  const unavailable = reason === "storage_unavailable";
+  return c.json(
+    {
+      error: unavailable ? "Service Unavailable" : "Bad Gateway",
+      message: unavailableMessages[reason],
+      requestId: c.get("requestId"),
+    },
+    unavailable ? 503 : 502,
+  );
+};
+
+// 403 for a forged token, 410 for one that expired or was used up
+const downloadTokenErrorResponse = (
+  c: Context,
+  err: DownloadTokenError,
+): Response => {
+  const invalid = err.reason === "invalid";
+  return c.json(
+    {
+      error: invalid ? "Forbidden" : "Gone",
+      message: err.message,
+      requestId: c.get("requestId"),
+    },
+    invalid ? 403 : 410,
+  );
+};
+
+// Streams an object to the client, reporting storage failures as JSON
+const proxyObject = async (
+  c: Context,
+  target: StorageBackend,
+  key: string,
+  conditions: ProxyConditions,
+): Promise<Response> => {
+  try {
+    return await fileProxy.serve(target, key, conditions, c.req.raw.signal);
+  } catch (err) {
+    return storageErrorResponse(c, key, err);
+  }
+};
+
+const downloadFileRoute = createRoute({
+  method: "get",
+  path: "/v1/download/file/{fileId}",
+  tags: ["Download"],
+  summary: "Download a file through the service",
+  description: `Streams the object from storage for clients that cannot reach the object store. Needs a download token for the file, taken from a service-signed downloadUrl.
+    Supports Range (single range) to resume interrupted downloads, If-None-Match for revalidation and If-Range to resume only while the file is unchanged.`,
+  request: {
+    params: z.object({
+      fileId: z.coerce
+        .number()
+        .int()
+        .min(10000)
+        .max(100000000)
+        .openapi({ description: "File ID (10K to 100M)" }),
+    }),
+    query: z.object({
+      token: z.string().openapi({
+        description:
+          "Download token for this file (last segment of downloadUrl)",
+      }),
+    }),
+    headers: z.object({
+      range: z
+        .string()
+        .optional()
+        .openapi({ description: "Byte range, e.g. bytes=1048576-" }),
+      "if-none-match": z.string().optional(),
+      "if-range": z.string().optional().openapi({
+        description: "ETag or HTTP date the Range is conditional on",
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Whole file",
+      content: {
+        "application/octet-stream": {
+          schema: z.string().openapi({ format: "binary" }),
+        },
+      },
+    },
+    206: {
+      description: "Requested byte range",
+      content: {
+        "application/octet-stream": {
+          schema: z.string().openapi({ format: "binary" }),
+        },
+      },
+    },
+    304: {
+      description: "File matches If-None-Match",
+    },
+    403: {
+      description: "Malformed token, bad signature or token for another file",
       content: {
         "application/json": {
-          schema: DownloadInitiateResponseSchema,
+          schema: ErrorResponseSchema,
         },
       },
     },
-    400: {
-      description: "Invalid request",
+    404: {
+      description: "File not found",
       content: {
         "application/json": {
           schema: ErrorResponseSchema,
         },
       },
     },
-    500: {
-      description: "Internal server error",
+    410: {
+      description: "Token expired or already used",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    416: {
+      description: "Range not satisfiable",
+    },
+    502: {
+      description: "Storage error",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    503: {
+      description: "Storage unavailable",
       content: {
         "application/json": {
           schema: ErrorResponseSchema,
@@ -456,47 +2356,77 @@ const downloadInitiateRoute = createRoute({
   },
 });
 
-const downloadCheckRoute = createRoute({
-  method: "post",
-  path: "/v1/download/check",
+app.openapi(downloadFileRoute, async (c) => {
+  const { fileId } = c.req.valid("param");
+  const { token } = c.req.valid("query");
+  const headers = c.req.valid("header");
+  const tenant = c.get("tenant");
+  let key: string;
+  try {
+    ({ key } = await findObject(fileId, c.req.raw.signal, tenant));
+  } catch (err) {
+    return storageErrorResponse(c, String(fileId), err);
+  }
+  // Same access model as the redeem route: a service-signed token, here
+  // tied to the object the file ID resolves to
+  try {
+    if (downloadTokens.redeem(token) !== key) {
+      return c.json(
+        {
+          error: "Forbidden",
+          message: `Download token is not for file ${String(fileId)}`,
+          requestId: c.get("requestId"),
+        },
+        403,
+      );
+    }
+  } catch (err) {
+    if (!(err instanceof DownloadTokenError)) throw err;
+    return downloadTokenErrorResponse(c, err);
+  }
+  return proxyObject(c, storageRouter.forFile(fileId, tenant).storage, key, {
+    range: headers.range,
+    ifNoneMatch: headers["if-none-match"],
+    ifRange: headers["if-range"],
+  });
+});
+
+const downloadRedeemRoute = createRoute({
+  method: "get",
+  path: "/v1/download/redeem/{token}",
   tags: ["Download"],
-  summary: "Check download availability",
-  description:
-    "Checks if a single ID is available for download in S3. Add ?sentry_test=true to trigger an error for Sentry testing.",
+  summary: "Download with a service-signed link",
+  description: `Serves the file behind a download token. Tokens are handed out as downloadUrl by storage backends that cannot presign (local, mock) and expire after ${String(env.DOWNLOAD_URL_EXPIRY_SECONDS)}s.
+    With the mock backend the content is generated, so the whole download flow works without a storage service.`,
   request: {
-    query: z.object({
-      sentry_test: z.string().optional().openapi({
-        description:
-          "Set to 'true' to trigger an intentional error for Sentry testing",
-      }),
+    params: z.object({
+      token: z.string().openapi({ description: "Token from downloadUrl" }),
+    }),
+    headers: z.object({
+      range: z.string().optional(),
+      "if-none-match": z.string().optional(),
+      "if-range": z.string().optional(),
     }),
-    body: {
-      content: {
-        "application/json": {
-          schema: DownloadCheckRequestSchema,
-        },
-      },
-    },
   },
   responses: {
     200: {
-      description: "Availability check result",
+      description: "File content",
       content: {
-        "application/json": {
-          schema: DownloadCheckResponseSchema,
+        "application/octet-stream": {
+          schema: z.string().openapi({ format: "binary" }),
         },
       },
     },
-    400: {
-      description: "Invalid request",
+    403: {
+      description: "Malformed token or bad signature",
       content: {
         "application/json": {
           schema: ErrorResponseSchema,
         },
       },
     },
-    500: {
-      description: "Internal server error",
+    410: {
+      description: "Token expired or already used",
       content: {
         "application/json": {
           schema: ErrorResponseSchema,
@@ -506,78 +2436,147 @@ const downloadCheckRoute = createRoute({
   },
 });
 
-app.openapi(downloadInitiateRoute, (c) => {
-  const { file_ids } = c.req.valid("json");
-  const jobId = crypto.randomUUID();
-  return c.json(
-    {
-      jobId,
-      status: "queued" as const,
-      totalFileIds: file_ids.length,
-    },
-    200,
-  );
+app.openapi(downloadRedeemRoute, async (c) => {
+  const { token } = c.req.valid("param");
+  const headers = c.req.valid("header");
+  let key: string;
+  try {
+    key = downloadTokens.redeem(token);
+  } catch (err) {
+    if (!(err instanceof DownloadTokenError)) throw err;
+    return downloadTokenErrorResponse(c, err);
+  }
+
+  c.header("Cache-Control", "no-store");
+  return proxyObject(c, storage, key, {
+    range: headers.range,
+    ifNoneMatch: headers["if-none-match"],
+    ifRange: headers["if-range"],
+  });
 });
 
-app.openapi(downloadCheckRoute, async (c) => {
-  const { sentry_test } = c.req.valid("query");
-  const { file_id } = c.req.valid("json");
+// ============================================
+// File Upload Route
+// ============================================
 
-  // Intentional error for Sentry testing (hackathon challenge)
-  if (sentry_test === "true") {
-    throw new Error(
-      `Sentry test error triggered for file_id=${String(file_id)} - This should appear in Sentry!`,
-    );
+const FileUploadResponseSchema = z
+  .object({
+    file_id: z.number().int(),
+    s3Key: z.string(),
+    size: z.number().int(),
+    etag: z.string().nullable(),
+    contentType: z.string().nullable(),
+  })
+  .openapi("FileUploadResponse");
+
+const uploadFailureResponses: Record<
+  UploadFailure,
+  { error: string; status: 400 | 413 | 415 }
+> = {
+  malformed: { error: "Bad Request", status: 400 },
+  empty: { error: "Bad Request", status: 400 },
+  too_large: { error: "Payload Too Large", status: 413 },
+  unsupported_type: { error: "Unsupported Media Type", status: 415 },
+  not_a_zip: { error: "Unsupported Media Type", status: 415 },
+};
+
+// Unlike checkAvailability, storage failures reject instead of reading as
+// "not there". Any of the configured extensions counts.
+const fileExists = async (
+  fileId: number,
+  signal: AbortSignal,
+  tenant: string | null,
+): Promise<boolean> => {
+  try {
+    await findObject(fileId, signal, tenant);
+    return true;
+  } catch (err) {
+    if (err instanceof ObjectNotFoundError) return false;
+    throw err;
   }
-  // Inside your download route
-  console.log(`[DEBUG] Looking for file: ${String(file_id)}`);
-  const s3Result = await checkS3Availability(file_id);
-  return c.json(
-    {
-      file_id,
-      ...s3Result,
-    },
-    200,
-  );
-});
+};
 
-// Download Start Route - simulates long-running download with random delay
-const downloadStartRoute = createRoute({
+// Picks a free file ID for uploads that do not bring their own
+const assignFileId = async (
+  signal: AbortSignal,
+  tenant: string | null,
+): Promise<number> => {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const fileId = randomInt(10000, 100000001);
+    if (!(await fileExists(fileId, signal, tenant))) return fileId;
+  }
+  throw new Error("Could not find a free file ID");
+};
+
+const fileUploadRoute = createRoute({
   method: "post",
-  path: "/v1/download/start",
-  tags: ["Download"],
-  summary: "Start file download (long-running)",
-  description: `Starts a file download with simulated processing delay.
-    Processing time varies randomly between ${String(env.DOWNLOAD_DELAY_MIN_MS / 1000)}s and ${String(env.DOWNLOAD_DELAY_MAX_MS / 1000)}s.
-    This endpoint demonstrates long-running operations that may timeout behind proxies.`,
+  path: "/v1/files",
+  tags: ["Files"],
+  summary: "Upload a file",
+  description: `Stores a zip archive under the ${UPLOAD_EXTENSION} key of the file ID, e.g. ${keyLayout.keyFor(70000, UPLOAD_EXTENSION)}. Send it as a multipart/form-data field named "file" or as the raw request body with its Content-Type.
+    Files up to ${String(env.UPLOAD_MAX_BYTES)} bytes of type ${env.UPLOAD_ALLOWED_CONTENT_TYPES.join(", ")} are accepted. Without file_id a free ID is assigned.`,
   request: {
-    body: {
+    query: z.object({
+      file_id: z.coerce
+        .number()
+        .int()
+        .min(10000)
+        .max(100000000)
+        .optional()
+        .openapi({ description: "File ID to store under (10K to 100M)" }),
+    }),
+  },
+  responses: {
+    201: {
+      description: "File stored",
       content: {
         "application/json": {
-          schema: DownloadStartRequestSchema,
+          schema: FileUploadResponseSchema,
         },
       },
     },
-  },
-  responses: {
-    200: {
-      description: "Download completed successfully",
+    400: {
+      description: "No file in the request",
       content: {
         "application/json": {
-          schema: DownloadStartResponseSchema,
+          schema: ErrorResponseSchema,
         },
       },
     },
-    400: {
-      description: "Invalid request",
+    409: {
+      description: "A file with this ID already exists",
       content: {
         "application/json": {
           schema: ErrorResponseSchema,
         },
       },
     },
-    500: {
-      description: "Internal server error",
+    413: {
+      description: "File exceeds UPLOAD_MAX_BYTES",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    415: {
+      description: "Content type not accepted or file is not a zip archive",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    502: {
+      description: "Storage error",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    503: {
+      description: "Storage temporarily unavailable",
       content: {
         "application/json": {
           schema: ErrorResponseSchema,
@@ -587,81 +2586,85 @@ const downloadStartRoute = createRoute({
   },
 });
 
-app.openapi(downloadStartRoute, async (c) => {
-  const { file_id } = c.req.valid("json");
-  const startTime = Date.now();
-
-  // Track active download
-  downloadStarted();
-
-  // Get random delay and log it
-  const delayMs = getRandomDelay();
-  const delaySec = (delayMs / 1000).toFixed(1);
-  const minDelaySec = (env.DOWNLOAD_DELAY_MIN_MS / 1000).toFixed(0);
-  const maxDelaySec = (env.DOWNLOAD_DELAY_MAX_MS / 1000).toFixed(0);
-  console.log(
-    `[Download] Starting file_id=${String(file_id)} | delay=${delaySec}s (range: ${minDelaySec}s-${maxDelaySec}s) | enabled=${String(env.DOWNLOAD_DELAY_ENABLED)}`,
-  );
-
-  // Simulate long-running download process
-  await sleep(delayMs);
-
-  // Check if file is available in S3 with timing
-  const s3Timer = s3OperationTimer("HeadObject");
-  const s3Result = await checkS3Availability(file_id);
-  s3Timer();
+app.openapi(fileUploadRoute, async (c) => {
+  const { file_id: requestedId } = c.req.valid("query");
+  const signal = c.req.raw.signal;
+  const tenant = c.get("tenant");
+  let fileId: number | undefined;
+  try {
+    uploader.precheck(c.req.header("content-length"));
 
-  const processingTimeMs = Date.now() - startTime;
+    fileId = requestedId ?? (await assignFileId(signal, tenant));
+    // Answers before the body is read; the create-only write below still
+    // catches uploads racing for the same ID
+    if (requestedId !== undefined) {
+      if (await fileExists(fileId, signal, tenant)) {
+        throw new ObjectExistsError(String(fileId));
+      }
+    }
 
-  console.log(
-    `[Download] Completed file_id=${String(file_id)}, actual_time=${String(processingTimeMs)}ms, available=${String(s3Result.available)}`,
-  );
+    if (!c.req.raw.body) throw new UploadRejectedError("empty");
+    const body = Readable.fromWeb(c.req.raw.body as NodeReadableStream);
+    const contentType = c.req.header("content-type") ?? "";
+    const source = contentType.toLowerCase().startsWith("multipart/form-data")
+      ? await fileFromMultipart({ "content-type": contentType }, body)
+      : { body, contentType };
 
-  if (s3Result.available) {
-    downloadCompleted(processingTimeMs / 1000);
+    const object = await uploader.store(
+      storageRouter.forFile(fileId, tenant).storage,
+      keyLayout.keyFor(fileId, UPLOAD_EXTENSION),
+      source,
+      signal,
+    );
+    uploadFinished("stored", object.size);
+    console.log(
+      `[Upload] Stored file_id=${String(fileId)}, size=${String(object.size)}`,
+    );
     return c.json(
       {
-        file_id,
-        status: "completed" as const,
-        downloadUrl: `https://storage.example.com/${s3Result.s3Key ?? ""}?token=${crypto.randomUUID()}`,
-        size: s3Result.size,
-        processingTimeMs,
-        message: `Download ready after ${(processingTimeMs / 1000).toFixed(1)} seconds`,
-      },
-      200,
+        file_id: fileId,
+        s3Key: object.key,
+        size: object.size,
+        etag: object.etag,
+        contentType: object.contentType,
+      },
+      201,
     );
-  } else {
-    downloadFailed();
+  } catch (err) {
+    if (err instanceof ObjectExistsError) {
+      return c.json(
+        {
+          error: "Conflict",
+          message: `File ${String(fileId)} already exists`,
+          requestId: c.get("requestId"),
+        },
+        409,
+      );
+    }
+    if (err instanceof UploadRejectedError) {
+      uploadFinished(err.reason);
+      const { error, status } = uploadFailureResponses[err.reason];
+      return c.json(
+        { error, message: err.message, requestId: c.get("requestId") },
+        status,
+      );
+    }
+    uploadFinished("error");
+    console.error("[Upload] Storing file failed:", err);
+    const unavailable = unavailableReason(err) === "storage_unavailable";
     return c.json(
       {
-        file_id,
-        status: "failed" as const,
-        downloadUrl: null,
-        size: null,
-        processingTimeMs,
-        message: `File not found after ${(processingTimeMs / 1000).toFixed(1)} seconds of processing`,
-      },
-      200,
+        error: unavailable ? "Service Unavailable" : "Bad Gateway",
+        message: unavailable
+          ? unavailableMessages.storage_unavailable
+          : unavailableMessages.storage_error,
+        requestId: c.get("requestId"),
+      },
+      unavailable ? 503 : 502,
     );
   }
 });
 
-// OpenAPI spec endpoint (disabled in production)
-if (env.NODE_ENV !== "production") {
-  app.doc("/openapi", {
-    openapi: "3.0.0",
-    info: {
-      title: "Delineate Hackathon Challenge API",
-      version: "1.0.0",
-      description: "API for Delineate Hackathon Challenge",
-    },
-    servers: [{ url: "http://localhost:3000", description: "Local server" }],
-  });
-
-  // Scalar API docs
-  app.get("/docs", Scalar({ url: "/openapi" }));
-}
-
 // Prometheus metrics endpoint
 app.get("/metrics", async (c) => {
   c.header("Content-Type", register.contentType);
@@ -671,6 +2674,7 @@ app.get("/metrics", async (c) => {
 // Graceful shutdown handler
 const gracefulShutdown = (server: ServerType) => (signal: string) => {
   console.log(`\n${signal} received. Starting graceful shutdown...`);
+  jobSweeper.stop();
 
   // Stop accepting new connections
   server.close(() => {
@@ -686,9 +2690,8 @@ const gracefulShutdown = (server: ServerType) => (signal: string) => {
         console.error("Error shutting down OpenTelemetry:", err);
       })
       .finally(() => {
-        // Destroy S3 client
-        s3Client.destroy();
-        console.log("S3 client destroyed");
+        storageRouter.close();
+        console.log("Storage closed");
         console.log("Graceful shutdown completed");
       });
   });
@@ -709,6 +2712,9 @@ const server = serve(
   },
 );
 
+// Attach WebSocket upgrade handling to the HTTP server
+nodeWebSocket.injectWebSocket(server);
+
 // Register shutdown handlers
 const shutdown = gracefulShutdown(server);
 process.on("SIGTERM", () => {
@@ -717,3 +2723,7 @@ process.on("SIGTERM", () => {
 process.on("SIGINT", () => {
   shutdown("SIGINT");
 });
+// Jobs may still be draining after shutdown, close the store only on exit
+process.on("exit", () => {
+  jobStore.close();
+});
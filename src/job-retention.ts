@@ -0,0 +1,70 @@
+// ============================================
+// Job Retention
+// ============================================
+//
+// Finished jobs are kept for ttlMs after they complete, then a periodic
+// sweep deletes them (with their events and webhook deliveries) from the
+// job store; a job whose webhook is still being retried waits for the
+// delivery to settle. Expired IDs are remembered for another ttlMs so the
+// status route can answer 410 Gone rather than 404. A bundle zip goes
+// with its job.
+
+import type { JobStore } from "./job-store.ts";
+import { jobsExpired, jobsRetainedChanged } from "./metrics.ts";
+
+export interface JobSweeperOptions {
+  store: JobStore;
+  ttlMs: number;
+  intervalMs: number;
+  // Removes a bundle from storage; failures are only logged
+  deleteBundle: (key: string) => Promise<void>;
+}
+
+export const createJobSweeper = ({
+  store,
+  ttlMs,
+  intervalMs,
+  deleteBundle,
+}: JobSweeperOptions) => {
+  const sweep = (): number => {
+    const cutoff = new Date(Date.now() - ttlMs).toISOString();
+    const expired = store.expireJobs(cutoff);
+    store.forgetExpiredJobs(cutoff);
+    for (const { jobId, bundleKey } of expired) {
+      if (bundleKey === null) continue;
+      deleteBundle(bundleKey).catch((err: unknown) => {
+        console.error(
+          `[Retention] Deleting bundle ${bundleKey} of job=${jobId} failed:`,
+          err,
+        );
+      });
+    }
+
+    const { active, finished } = store.countJobs();
+    jobsRetainedChanged(active, finished);
+    if (expired.length > 0) {
+      jobsExpired(expired.length);
+      console.log(
+        `[Retention] Expired ${String(expired.length)} finished jobs`,
+      );
+    }
+    return expired.length;
+  };
+
+  const timer = setInterval(() => {
+    try {
+      sweep();
+    } catch (err) {
+      console.error("[Retention] Sweep failed:", err);
+    }
+  }, intervalMs);
+  timer.unref();
+
+  const stop = () => {
+    clearInterval(timer);
+  };
+
+  return { sweep, stop };
+};
+
+export type JobSweeper = ReturnType<typeof createJobSweeper>;
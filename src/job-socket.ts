@@ -0,0 +1,188 @@
+// ============================================
+// Job Subscription WebSocket
+// ============================================
+//
+// Lets one connection follow many jobs at once. Clients send JSON messages:
+//   { "type": "subscribe", "jobIds": [...], "lastEventIds": { [jobId]: n } }
+//   { "type": "unsubscribe", "jobIds": [...] }
+//   { "type": "ping" }
+// and receive the same events as the SSE stream wrapped as
+//   { "type": "event", "jobId": "...", "event": { id, type, data } }
+
+import { z } from "@hono/zod-openapi";
+import type { WSContext, WSEvents } from "hono/ws";
+import type { WebSocket } from "ws";
+import { isFinalEvent } from "./jobs.ts";
+import type { JobEngine, JobEvent } from "./jobs.ts";
+
+// Close codes (RFC 6455 / IANA registry)
+const CLOSE_GOING_AWAY = 1001;
+const CLOSE_TRY_AGAIN_LATER = 1013;
+
+const ClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("subscribe"),
+    jobIds: z.array(z.uuid()).min(1),
+    lastEventIds: z.record(z.string(), z.number().int().min(0)).optional(),
+  }),
+  z.object({
+    type: z.literal("unsubscribe"),
+    jobIds: z.array(z.uuid()).min(1),
+  }),
+  z.object({
+    type: z.literal("ping"),
+  }),
+]);
+
+export interface JobSocketOptions {
+  jobEngine: JobEngine;
+  pingIntervalMs: number;
+  maxBufferedBytes: number;
+  maxSubscriptions: number;
+}
+
+export const createJobSocket =
+  ({
+    jobEngine,
+    pingIntervalMs,
+    maxBufferedBytes,
+    maxSubscriptions,
+  }: JobSocketOptions) =>
+  (): WSEvents<WebSocket> => {
+    const subscriptions = new Map<string, () => void>();
+    let keepalive: NodeJS.Timeout | undefined;
+    let alive = true;
+
+    const unsubscribeAll = () => {
+      for (const unsubscribe of subscriptions.values()) unsubscribe();
+      subscriptions.clear();
+      clearInterval(keepalive);
+    };
+
+    // Drop slow consumers instead of buffering without bound
+    const send = (ws: WSContext<WebSocket>, message: object) => {
+      if (ws.readyState !== 1) return;
+      if ((ws.raw?.bufferedAmount ?? 0) > maxBufferedBytes) {
+        unsubscribeAll();
+        ws.close(CLOSE_TRY_AGAIN_LATER, "Send buffer full");
+        return;
+      }
+      ws.send(JSON.stringify(message));
+    };
+
+    const sendEvent = (ws: WSContext<WebSocket>, event: JobEvent) => {
+      send(ws, { type: "event", jobId: event.data.jobId, event });
+      if (isFinalEvent(event)) {
+        subscriptions.get(event.data.jobId)?.();
+        subscriptions.delete(event.data.jobId);
+      }
+    };
+
+    const subscribe = (
+      ws: WSContext<WebSocket>,
+      jobIds: string[],
+      lastEventIds: Record<string, number> = {},
+    ) => {
+      const subscribed: string[] = [];
+      const notFound: string[] = [];
+      for (const jobId of jobIds) {
+        if (subscriptions.has(jobId)) {
+          subscribed.push(jobId);
+          continue;
+        }
+        if (!jobEngine.getJob(jobId)) {
+          notFound.push(jobId);
+          continue;
+        }
+        if (subscriptions.size >= maxSubscriptions) {
+          send(ws, {
+            type: "error",
+            message: `Subscription limit of ${String(maxSubscriptions)} jobs reached`,
+          });
+          break;
+        }
+        subscriptions.set(
+          jobId,
+          jobEngine.subscribe(jobId, (event) => {
+            sendEvent(ws, event);
+          }),
+        );
+        subscribed.push(jobId);
+      }
+      send(ws, { type: "subscribed", jobIds: subscribed, notFound });
+
+      // Replay history after confirming, completed jobs unsubscribe themselves
+      for (const jobId of subscribed) {
+        for (const event of jobEngine.getEvents(jobId, lastEventIds[jobId])) {
+          sendEvent(ws, event);
+        }
+      }
+    };
+
+    const unsubscribe = (ws: WSContext<WebSocket>, jobIds: string[]) => {
+      for (const jobId of jobIds) {
+        subscriptions.get(jobId)?.();
+        subscriptions.delete(jobId);
+      }
+      send(ws, { type: "unsubscribed", jobIds });
+    };
+
+    return {
+      onOpen: (_event, ws) => {
+        ws.raw?.on("pong", () => {
+          alive = true;
+        });
+        // Protocol-level keepalive: terminate peers that stop answering pings
+        keepalive = setInterval(() => {
+          if (!alive) {
+            unsubscribeAll();
+            ws.raw?.terminate();
+            return;
+          }
+          alive = false;
+          ws.raw?.ping();
+        }, pingIntervalMs);
+      },
+      onMessage: (event, ws) => {
+        if (typeof event.data !== "string") {
+          send(ws, {
+            type: "error",
+            message: "Only text messages are supported",
+          });
+          return;
+        }
+        let payload: unknown;
+        try {
+          payload = JSON.parse(event.data);
+        } catch {
+          send(ws, { type: "error", message: "Message must be valid JSON" });
+          return;
+        }
+        const parsed = ClientMessageSchema.safeParse(payload);
+        if (!parsed.success) {
+          send(ws, { type: "error", message: z.prettifyError(parsed.error) });
+          return;
+        }
+
+        const message = parsed.data;
+        switch (message.type) {
+          case "subscribe":
+            subscribe(ws, message.jobIds, message.lastEventIds);
+            break;
+          case "unsubscribe":
+            unsubscribe(ws, message.jobIds);
+            break;
+          case "ping":
+            send(ws, { type: "pong" });
+            break;
+        }
+      },
+      onClose: () => {
+        unsubscribeAll();
+      },
+      onError: (_event, ws) => {
+        unsubscribeAll();
+        ws.close(CLOSE_GOING_AWAY);
+      },
+    };
+  };
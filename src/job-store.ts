@@ -0,0 +1,786 @@
+// ============================================
+// Job Store
+// ============================================
+//
+// Persistence for download jobs, their event logs and webhook deliveries.
+// The engine writes every state transition through the store, so with the
+// SQLite backend a restarted process still knows about every job it had.
+//
+//   memory - process-local maps, for tests and throwaway environments
+//   sqlite - single file via node:sqlite, survives restarts
+
+import { DatabaseSync } from "node:sqlite";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type { Job, JobBundle, JobEvent, JobFile, JobStatus } from "./jobs.ts";
+import type { WebhookDelivery } from "./webhooks.ts";
+
+export const JOB_STORE_KINDS = ["memory", "sqlite"] as const;
+export type JobStoreKind = (typeof JOB_STORE_KINDS)[number];
+
+// Job without its file list, for listings
+export type JobSummary = Omit<Job, "files"> & {
+  totalFileIds: number;
+  completedFileIds: number;
+  failedFileIds: number;
+  cancelledFileIds: number;
+  // Entry for JobQuery.fileId when that filter is set
+  file?: JobFile;
+};
+
+// Position in a newest-first listing: the last job of the previous page
+export interface JobCursor {
+  createdAt: string;
+  jobId: string;
+}
+
+export interface JobQuery {
+  status?: JobStatus;
+  // Inclusive lower and exclusive upper bound on createdAt
+  createdAfter?: string;
+  createdBefore?: string;
+  clientKey?: string;
+  // Only jobs that contain this file
+  fileId?: number;
+  after?: JobCursor;
+  limit: number;
+}
+
+export interface JobPage {
+  jobs: JobSummary[];
+  next: JobCursor | null;
+}
+
+// Cursors are opaque to clients: base64url JSON of [createdAt, jobId]
+export const encodeJobCursor = ({ createdAt, jobId }: JobCursor): string =>
+  Buffer.from(JSON.stringify([createdAt, jobId])).toString("base64url");
+
+export const decodeJobCursor = (cursor: string): JobCursor | undefined => {
+  try {
+    const value: unknown = JSON.parse(
+      Buffer.from(cursor, "base64url").toString(),
+    );
+    if (
+      Array.isArray(value) &&
+      value.length === 2 &&
+      typeof value[0] === "string" &&
+      typeof value[1] === "string"
+    ) {
+      return { createdAt: value[0], jobId: value[1] };
+    }
+  } catch {
+    // Malformed JSON, same as any other invalid cursor
+  }
+  return undefined;
+};
+
+const summarize = (job: Job, fileId?: number): JobSummary => {
+  const { files, ...rest } = job;
+  const count = (status: JobFile["status"]) =>
+    files.filter((file) => file.status === status).length;
+  const file =
+    fileId === undefined
+      ? undefined
+      : files.find((entry) => entry.file_id === fileId);
+  return {
+    ...rest,
+    totalFileIds: files.length,
+    completedFileIds: count("completed"),
+    failedFileIds: count("failed"),
+    cancelledFileIds: count("cancelled"),
+    ...(file && { file }),
+  };
+};
+
+// Newest first; ties on createdAt are broken by jobId
+const isBefore = (job: Job, cursor: JobCursor): boolean =>
+  job.createdAt < cursor.createdAt ||
+  (job.createdAt === cursor.createdAt && job.jobId < cursor.jobId);
+
+// What expireJobs removed, for cleaning up outside the store
+export interface ExpiredJob {
+  jobId: string;
+  // Storage key of the job's bundle zip, if it has one
+  bundleKey: string | null;
+}
+
+// A delivery still being retried, with the exact body it sends
+export interface PendingDelivery {
+  delivery: WebhookDelivery;
+  // null for deliveries saved before bodies were stored
+  body: string | null;
+}
+
+// Reads return copies: callers never share objects with the store
+export interface JobStore {
+  // New job together with all of its files
+  insertJob: (job: Job) => void;
+  // Job-level fields only (status, timestamps, bundle), files are left
+  // untouched
+  updateJob: (job: Job) => void;
+  updateFile: (jobId: string, file: JobFile) => void;
+  getJob: (jobId: string) => Job | undefined;
+  // Jobs without completedAt, oldest first (for crash recovery)
+  listUnfinishedJobs: () => Job[];
+  listJobs: (query: JobQuery) => JobPage;
+  appendEvent: (event: JobEvent) => void;
+  // 0 when the job has no events yet
+  getLastEventId: (jobId: string) => number;
+  // Events with an ID greater than afterId, oldest first
+  getEvents: (jobId: string, afterId: number) => JobEvent[];
+  // body is stored with the first save and kept on later ones
+  saveDelivery: (delivery: WebhookDelivery, body?: string) => void;
+  getDeliveries: (jobId: string) => WebhookDelivery[];
+  // Pending deliveries of every job, oldest first (for resuming retries)
+  listPendingDeliveries: () => PendingDelivery[];
+  // Deletes jobs finished before the cutoff (with their events and
+  // deliveries) and leaves a tombstone for each; returns the jobs that went.
+  // Jobs with a webhook delivery still being retried are kept until it
+  // settles.
+  expireJobs: (completedBefore: string) => ExpiredJob[];
+  isJobExpired: (jobId: string) => boolean;
+  // Drops tombstones so expired IDs eventually read as unknown
+  forgetExpiredJobs: (expiredBefore: string) => void;
+  countJobs: () => { active: number; finished: number };
+  close: () => void;
+}
+
+export const createMemoryJobStore = (): JobStore => {
+  const jobs = new Map<string, Job>();
+  const events = new Map<string, JobEvent[]>();
+  const deliveries = new Map<string, Map<string, PendingDelivery>>();
+  // Expired job ID -> when it expired
+  const expired = new Map<string, string>();
+
+  return {
+    insertJob: (job) => {
+      jobs.set(job.jobId, structuredClone(job));
+    },
+    updateJob: (job) => {
+      const stored = jobs.get(job.jobId);
+      if (!stored) return;
+      // Cloning the file list would only be thrown away, and it is most of
+      // the job on large batches
+      jobs.set(job.jobId, {
+        ...structuredClone({ ...job, files: [] }),
+        files: stored.files,
+      });
+    },
+    updateFile: (jobId, file) => {
+      const stored = jobs.get(jobId);
+      const index =
+        stored?.files.findIndex((entry) => entry.file_id === file.file_id) ??
+        -1;
+      if (!stored || index === -1) return;
+      stored.files[index] = structuredClone(file);
+    },
+    getJob: (jobId) => {
+      const stored = jobs.get(jobId);
+      return stored && structuredClone(stored);
+    },
+    listUnfinishedJobs: () =>
+      structuredClone(
+        [...jobs.values()]
+          .filter((job) => job.completedAt === null)
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+      ),
+    appendEvent: (event) => {
+      const log = events.get(event.data.jobId) ?? [];
+      log.push(structuredClone(event));
+      events.set(event.data.jobId, log);
+    },
+    listJobs: (query) => {
+      const matches = [...jobs.values()]
+        .filter(
+          (job) =>
+            (query.status === undefined || job.status === query.status) &&
+            (query.createdAfter === undefined ||
+              job.createdAt >= query.createdAfter) &&
+            (query.createdBefore === undefined ||
+              job.createdAt < query.createdBefore) &&
+            (query.clientKey === undefined ||
+              job.clientKey === query.clientKey) &&
+            (query.fileId === undefined ||
+              job.files.some((file) => file.file_id === query.fileId)) &&
+            (query.after === undefined || isBefore(job, query.after)),
+        )
+        .sort((a, b) =>
+          a.createdAt === b.createdAt
+            ? b.jobId.localeCompare(a.jobId)
+            : b.createdAt.localeCompare(a.createdAt),
+        );
+      const page = matches.slice(0, query.limit);
+      const last = page.at(-1);
+      return {
+        jobs: structuredClone(page.map((job) => summarize(job, query.fileId))),
+        next:
+          last && matches.length > query.limit
+            ? { createdAt: last.createdAt, jobId: last.jobId }
+            : null,
+      };
+    },
+    getEvents: (jobId, afterId) =>
+      structuredClone(
+        (events.get(jobId) ?? []).filter((event) => event.id > afterId),
+      ),
+    getLastEventId: (jobId) => events.get(jobId)?.at(-1)?.id ?? 0,
+    saveDelivery: (delivery, body) => {
+      const forJob =
+        deliveries.get(delivery.jobId) ?? new Map<string, PendingDelivery>();
+      forJob.set(delivery.deliveryId, {
+        delivery: structuredClone(delivery),
+        body: forJob.get(delivery.deliveryId)?.body ?? body ?? null,
+      });
+      deliveries.set(delivery.jobId, forJob);
+    },
+    getDeliveries: (jobId) =>
+      structuredClone(
+        [...(deliveries.get(jobId)?.values() ?? [])].map(
+          ({ delivery }) => delivery,
+        ),
+      ),
+    listPendingDeliveries: () =>
+      structuredClone(
+        [...deliveries.values()]
+          .flatMap((forJob) => [...forJob.values()])
+          .filter(({ delivery }) => delivery.status === "pending")
+          .sort((a, b) =>
+            a.delivery.createdAt.localeCompare(b.delivery.createdAt),
+          ),
+      ),
+    expireJobs: (completedBefore) => {
+      const now = new Date().toISOString();
+      const removed: ExpiredJob[] = [];
+      for (const job of jobs.values()) {
+        if (job.completedAt === null || job.completedAt >= completedBefore) {
+          continue;
+        }
+        const forJob = deliveries.get(job.jobId)?.values() ?? [];
+        if ([...forJob].some(({ delivery }) => delivery.status === "pending")) {
+          continue;
+        }
+        jobs.delete(job.jobId);
+        events.delete(job.jobId);
+        deliveries.delete(job.jobId);
+        expired.set(job.jobId, now);
+        removed.push({ jobId: job.jobId, bundleKey: job.bundle?.key ?? null });
+      }
+      return removed;
+    },
+    isJobExpired: (jobId) => expired.has(jobId),
+    forgetExpiredJobs: (expiredBefore) => {
+      for (const [jobId, expiredAt] of expired) {
+        if (expiredAt < expiredBefore) expired.delete(jobId);
+      }
+    },
+    countJobs: () => {
+      let active = 0;
+      for (const job of jobs.values()) {
+        if (job.completedAt === null) active++;
+      }
+      return { active, finished: jobs.size - active };
+    },
+    close: () => {
+      jobs.clear();
+      events.clear();
+      deliveries.clear();
+      expired.clear();
+    },
+  };
+};
+
+// Applied in order, PRAGMA user_version records how many already ran
+const MIGRATIONS = [
+  `
+  CREATE TABLE IF NOT EXISTS jobs (
+    job_id       TEXT PRIMARY KEY,
+    status       TEXT NOT NULL,
+    priority     TEXT NOT NULL,
+    client_key   TEXT NOT NULL,
+    callback_url TEXT,
+    created_at   TEXT NOT NULL,
+    updated_at   TEXT NOT NULL,
+    completed_at TEXT
+  );
+  CREATE TABLE IF NOT EXISTS job_files (
+    job_id             TEXT NOT NULL REFERENCES jobs (job_id) ON DELETE CASCADE,
+    position           INTEGER NOT NULL,
+    file_id            INTEGER NOT NULL,
+    status             TEXT NOT NULL,
+    download_url       TEXT,
+    size               INTEGER,
+    processing_time_ms INTEGER,
+    message            TEXT,
+    PRIMARY KEY (job_id, file_id)
+  );
+  CREATE TABLE IF NOT EXISTS job_events (
+    job_id   TEXT NOT NULL REFERENCES jobs (job_id) ON DELETE CASCADE,
+    event_id INTEGER NOT NULL,
+    type     TEXT NOT NULL,
+    data     TEXT NOT NULL,
+    PRIMARY KEY (job_id, event_id)
+  );
+  CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    delivery_id TEXT PRIMARY KEY,
+    job_id      TEXT NOT NULL REFERENCES jobs (job_id) ON DELETE CASCADE,
+    created_at  TEXT NOT NULL,
+    data        TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS webhook_deliveries_job
+    ON webhook_deliveries (job_id, created_at);
+  `,
+  `
+  ALTER TABLE job_files ADD COLUMN retries INTEGER NOT NULL DEFAULT 0;
+  CREATE INDEX IF NOT EXISTS jobs_unfinished
+    ON jobs (created_at) WHERE completed_at IS NULL;
+  `,
+  `
+  CREATE TABLE IF NOT EXISTS expired_jobs (
+    job_id     TEXT PRIMARY KEY,
+    expired_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS jobs_completed
+    ON jobs (completed_at) WHERE completed_at IS NOT NULL;
+  `,
+  `
+  CREATE INDEX IF NOT EXISTS jobs_created ON jobs (created_at, job_id);
+  CREATE INDEX IF NOT EXISTS job_files_file ON job_files (file_id);
+  `,
+  `
+  ALTER TABLE jobs ADD COLUMN bundle TEXT;
+  `,
+  `
+  ALTER TABLE jobs ADD COLUMN progress INTEGER NOT NULL DEFAULT 0;
+  ALTER TABLE jobs ADD COLUMN eta_ms INTEGER;
+  ALTER TABLE job_files ADD COLUMN phase TEXT;
+  ALTER TABLE job_files ADD COLUMN progress INTEGER NOT NULL DEFAULT 0;
+  ALTER TABLE job_files ADD COLUMN eta_ms INTEGER;
+  UPDATE jobs SET progress = 100, eta_ms = 0 WHERE completed_at IS NOT NULL;
+  UPDATE job_files SET progress = 100, eta_ms = 0
+    WHERE status IN ('completed', 'failed', 'cancelled');
+  `,
+  `
+  ALTER TABLE job_files ADD COLUMN expires_at TEXT;
+  `,
+  `
+  ALTER TABLE jobs ADD COLUMN tenant TEXT;
+  `,
+  `
+  ALTER TABLE webhook_deliveries ADD COLUMN body TEXT;
+  CREATE INDEX IF NOT EXISTS webhook_deliveries_pending
+    ON webhook_deliveries (created_at)
+    WHERE json_extract(data, '$.status') = 'pending';
+  `,
+];
+
+interface JobRow {
+  job_id: string;
+  status: Job["status"];
+  priority: Job["priority"];
+  client_key: string;
+  tenant: string | null;
+  callback_url: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  // JobBundle as JSON
+  bundle: string | null;
+  progress: number;
+  eta_ms: number | null;
+}
+
+interface FileRow {
+  file_id: number;
+  status: JobFile["status"];
+  download_url: string | null;
+  expires_at: string | null;
+  size: number | null;
+  processing_time_ms: number | null;
+  message: string | null;
+  retries: number;
+  phase: JobFile["phase"];
+  progress: number;
+  eta_ms: number | null;
+}
+
+interface SummaryRow extends JobRow {
+  total_files: number;
+  completed_files: number;
+  failed_files: number;
+  cancelled_files: number;
+}
+
+interface EventRow {
+  event_id: number;
+  type: JobEvent["type"];
+  data: string;
+}
+
+const toFile = (file: FileRow): JobFile => ({
+  file_id: file.file_id,
+  status: file.status,
+  downloadUrl: file.download_url,
+  expiresAt: file.expires_at,
+  size: file.size,
+  processingTimeMs: file.processing_time_ms,
+  message: file.message,
+  retries: file.retries,
+  phase: file.phase,
+  progress: file.progress,
+  etaMs: file.eta_ms,
+});
+
+const toJobFields = (row: JobRow): Omit<Job, "files"> => ({
+  jobId: row.job_id,
+  status: row.status,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  completedAt: row.completed_at,
+  priority: row.priority,
+  clientKey: row.client_key,
+  tenant: row.tenant,
+  callbackUrl: row.callback_url,
+  progress: row.progress,
+  etaMs: row.eta_ms,
+  bundle: row.bundle === null ? null : (JSON.parse(row.bundle) as JobBundle),
+});
+
+const toJob = (row: JobRow, files: FileRow[]): Job => ({
+  ...toJobFields(row),
+  files: files.map(toFile),
+});
+
+const toSummary = (row: SummaryRow, file?: FileRow): JobSummary => ({
+  ...toJobFields(row),
+  totalFileIds: row.total_files,
+  completedFileIds: row.completed_files,
+  failedFileIds: row.failed_files,
+  cancelledFileIds: row.cancelled_files,
+  ...(file && { file: toFile(file) }),
+});
+
+const migrate = (db: DatabaseSync) => {
+  const { user_version: version } = db.prepare("PRAGMA user_version").get() as {
+    user_version: number;
+  };
+  MIGRATIONS.slice(version).forEach((sql, index) => {
+    db.exec("BEGIN");
+    try {
+      db.exec(sql);
+      db.exec(`PRAGMA user_version = ${String(version + index + 1)}`);
+      db.exec("COMMIT");
+    } catch (err) {
+      db.exec("ROLLBACK");
+      throw err;
+    }
+  });
+};
+
+export const createSqliteJobStore = (path: string): JobStore => {
+  mkdirSync(dirname(path), { recursive: true });
+  const db = new DatabaseSync(path);
+  // WAL keeps readers (status polling) from blocking on writers
+  db.exec("PRAGMA journal_mode = WAL");
+  db.exec("PRAGMA synchronous = NORMAL");
+  db.exec("PRAGMA foreign_keys = ON");
+  migrate(db);
+
+  const insertJobRow = db.prepare(
+    `INSERT INTO jobs (job_id, status, priority, client_key, tenant, callback_url, created_at, updated_at, completed_at, bundle, progress, eta_ms)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  );
+  const insertFileRow = db.prepare(
+    `INSERT INTO job_files (job_id, position, file_id, status, download_url, expires_at, size, processing_time_ms, message, retries, phase, progress, eta_ms)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  );
+  const updateJobRow = db.prepare(
+    `UPDATE jobs SET status = ?, updated_at = ?, completed_at = ?, bundle = ?, progress = ?, eta_ms = ?
+     WHERE job_id = ?`,
+  );
+  const updateFileRow = db.prepare(
+    `UPDATE job_files SET status = ?, download_url = ?, expires_at = ?, size = ?, processing_time_ms = ?, message = ?, retries = ?,
+       phase = ?, progress = ?, eta_ms = ?
+     WHERE job_id = ? AND file_id = ?`,
+  );
+  const selectJob = db.prepare("SELECT * FROM jobs WHERE job_id = ?");
+  const selectUnfinishedJobs = db.prepare(
+    "SELECT * FROM jobs WHERE completed_at IS NULL ORDER BY created_at",
+  );
+  const selectFiles = db.prepare(
+    "SELECT * FROM job_files WHERE job_id = ? ORDER BY position",
+  );
+  const insertEvent = db.prepare(
+    "INSERT INTO job_events (job_id, event_id, type, data) VALUES (?, ?, ?, ?)",
+  );
+  const selectEvents = db.prepare(
+    "SELECT event_id, type, data FROM job_events WHERE job_id = ? AND event_id > ? ORDER BY event_id",
+  );
+  const selectFile = db.prepare(
+    "SELECT * FROM job_files WHERE job_id = ? AND file_id = ?",
+  );
+  const selectLastEventId = db.prepare(
+    "SELECT MAX(event_id) AS id FROM job_events WHERE job_id = ?",
+  );
+  const upsertDelivery = db.prepare(
+    `INSERT INTO webhook_deliveries (delivery_id, job_id, created_at, data, body) VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT (delivery_id) DO UPDATE SET data = excluded.data`,
+  );
+  const selectDeliveries = db.prepare(
+    "SELECT data FROM webhook_deliveries WHERE job_id = ? ORDER BY created_at",
+  );
+  const selectPendingDeliveries = db.prepare(
+    `SELECT data, body FROM webhook_deliveries
+     WHERE json_extract(data, '$.status') = 'pending' ORDER BY created_at`,
+  );
+  const expirable = `completed_at IS NOT NULL AND completed_at < ?
+     AND NOT EXISTS (
+       SELECT 1 FROM webhook_deliveries d
+       WHERE d.job_id = jobs.job_id AND json_extract(d.data, '$.status') = 'pending'
+     )`;
+  const insertTombstones = db.prepare(
+    `INSERT OR REPLACE INTO expired_jobs (job_id, expired_at)
+     SELECT job_id, ? FROM jobs WHERE ${expirable}`,
+  );
+  // Files, events and deliveries go with the job via ON DELETE CASCADE
+  const deleteExpiredJobs = db.prepare(
+    `DELETE FROM jobs WHERE ${expirable} RETURNING job_id, bundle`,
+  );
+  const selectTombstone = db.prepare(
+    "SELECT 1 FROM expired_jobs WHERE job_id = ?",
+  );
+  const deleteTombstones = db.prepare(
+    "DELETE FROM expired_jobs WHERE expired_at < ?",
+  );
+  const countJobRows = db.prepare(
+    `SELECT COUNT(*) FILTER (WHERE completed_at IS NULL) AS active,
+            COUNT(*) FILTER (WHERE completed_at IS NOT NULL) AS finished
+     FROM jobs`,
+  );
+
+  // One transaction per job so a 1000-file insert is a single fsync
+  const insertJob = (job: Job) => {
+    db.exec("BEGIN");
+    try {
+      insertJobRow.run(
+        job.jobId,
+        job.status,
+        job.priority,
+        job.clientKey,
+        job.tenant,
+        job.callbackUrl,
+        job.createdAt,
+        job.updatedAt,
+        job.completedAt,
+        job.bundle && JSON.stringify(job.bundle),
+        job.progress,
+        job.etaMs,
+      );
+      job.files.forEach((file, position) => {
+        insertFileRow.run(
+          job.jobId,
+          position,
+          file.file_id,
+          file.status,
+          file.downloadUrl,
+          file.expiresAt,
+          file.size,
+          file.processingTimeMs,
+          file.message,
+          file.retries,
+          file.phase,
+          file.progress,
+          file.etaMs,
+        );
+      });
+      db.exec("COMMIT");
+    } catch (err) {
+      db.exec("ROLLBACK");
+      throw err;
+    }
+  };
+
+  // Filters are optional, so the page query is assembled per call
+  const listJobs = (query: JobQuery): JobPage => {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (query.status !== undefined) {
+      conditions.push("status = ?");
+      params.push(query.status);
+    }
+    if (query.createdAfter !== undefined) {
+      conditions.push("created_at >= ?");
+      params.push(query.createdAfter);
+    }
+    if (query.createdBefore !== undefined) {
+      conditions.push("created_at < ?");
+      params.push(query.createdBefore);
+    }
+    if (query.clientKey !== undefined) {
+      conditions.push("client_key = ?");
+      params.push(query.clientKey);
+    }
+    if (query.fileId !== undefined) {
+      conditions.push(
+        "EXISTS (SELECT 1 FROM job_files f WHERE f.job_id = jobs.job_id AND f.file_id = ?)",
+      );
+      params.push(query.fileId);
+    }
+    if (query.after !== undefined) {
+      conditions.push("(created_at, job_id) < (?, ?)");
+      params.push(query.after.createdAt, query.after.jobId);
+    }
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    // One extra row tells whether another page follows
+    const rows = db
+      .prepare(
+        `WITH page AS (
+           SELECT * FROM jobs ${where}
+           ORDER BY created_at DESC, job_id DESC LIMIT ?
+         )
+         SELECT page.*,
+                COUNT(f.file_id) AS total_files,
+                COALESCE(SUM(f.status = 'completed'), 0) AS completed_files,
+                COALESCE(SUM(f.status = 'failed'), 0) AS failed_files,
+                COALESCE(SUM(f.status = 'cancelled'), 0) AS cancelled_files
+         FROM page LEFT JOIN job_files f ON f.job_id = page.job_id
+         GROUP BY page.job_id
+         ORDER BY page.created_at DESC, page.job_id DESC`,
+      )
+      .all(...params, query.limit + 1) as unknown as SummaryRow[];
+
+    const pageRows = rows.slice(0, query.limit);
+    const last = pageRows.at(-1);
+    return {
+      jobs: pageRows.map((row) =>
+        toSummary(
+          row,
+          query.fileId === undefined
+            ? undefined
+            : (selectFile.get(row.job_id, query.fileId) as unknown as FileRow),
+        ),
+      ),
+      next:
+        last && rows.length > query.limit
+          ? { createdAt: last.created_at, jobId: last.job_id }
+          : null,
+    };
+  };
+
+  const getJob = (jobId: string): Job | undefined => {
+    const row = selectJob.get(jobId) as JobRow | undefined;
+    return row && toJob(row, selectFiles.all(jobId) as unknown as FileRow[]);
+  };
+
+  return {
+    insertJob,
+    updateJob: (job) => {
+      updateJobRow.run(
+        job.status,
+        job.updatedAt,
+        job.completedAt,
+        job.bundle && JSON.stringify(job.bundle),
+        job.progress,
+        job.etaMs,
+        job.jobId,
+      );
+    },
+    updateFile: (jobId, file) => {
+      updateFileRow.run(
+        file.status,
+        file.downloadUrl,
+        file.expiresAt,
+        file.size,
+        file.processingTimeMs,
+        file.message,
+        file.retries,
+        file.phase,
+        file.progress,
+        file.etaMs,
+        jobId,
+        file.file_id,
+      );
+    },
+    getJob,
+    listUnfinishedJobs: () =>
+      (selectUnfinishedJobs.all() as unknown as JobRow[]).map((row) =>
+        toJob(row, selectFiles.all(row.job_id) as unknown as FileRow[]),
+      ),
+    listJobs,
+    appendEvent: (event) => {
+      insertEvent.run(
+        event.data.jobId,
+        event.id,
+        event.type,
+        JSON.stringify(event.data),
+      );
+    },
+    getEvents: (jobId, afterId) =>
+      (selectEvents.all(jobId, afterId) as unknown as EventRow[]).map(
+        (row) => ({
+          id: row.event_id,
+          type: row.type,
+          data: JSON.parse(row.data) as JobEvent["data"],
+        }),
+      ),
+    getLastEventId: (jobId) =>
+      (selectLastEventId.get(jobId) as { id: number | null }).id ?? 0,
+    saveDelivery: (delivery, body) => {
+      upsertDelivery.run(
+        delivery.deliveryId,
+        delivery.jobId,
+        delivery.createdAt,
+        JSON.stringify(delivery),
+        body ?? null,
+      );
+    },
+    getDeliveries: (jobId) =>
+      (selectDeliveries.all(jobId) as { data: string }[]).map(
+        (row) => JSON.parse(row.data) as WebhookDelivery,
+      ),
+    listPendingDeliveries: () =>
+      (
+        selectPendingDeliveries.all() as {
+          data: string;
+          body: string | null;
+        }[]
+      ).map((row) => ({
+        delivery: JSON.parse(row.data) as WebhookDelivery,
+        body: row.body,
+      })),
+    expireJobs: (completedBefore) => {
+      db.exec("BEGIN");
+      try {
+        insertTombstones.run(new Date().toISOString(), completedBefore);
+        const rows = deleteExpiredJobs.all(completedBefore) as {
+          job_id: string;
+          bundle: string | null;
+        }[];
+        db.exec("COMMIT");
+        return rows.map((row) => ({
+          jobId: row.job_id,
+          bundleKey:
+            row.bundle === null
+              ? null
+              : (JSON.parse(row.bundle) as JobBundle).key,
+        }));
+      } catch (err) {
+        db.exec("ROLLBACK");
+        throw err;
+      }
+    },
+    isJobExpired: (jobId) => selectTombstone.get(jobId) !== undefined,
+    forgetExpiredJobs: (expiredBefore) => {
+      deleteTombstones.run(expiredBefore);
+    },
+    countJobs: () =>
+      countJobRows.get() as unknown as { active: number; finished: number },
+    close: () => {
+      db.close();
+    },
+  };
+};
+
+export const createJobStore = (kind: JobStoreKind, path: string): JobStore =>
+  kind === "sqlite" ? createSqliteJobStore(path) : createMemoryJobStore();
@@ -0,0 +1,587 @@
+// ============================================
+// Download Job Engine
+// ============================================
+//
+// Runs the files of a /v1/download/initiate job in the background and keeps
+// per-file state so clients can follow progress without holding a connection
+// open for the whole download.
+
+import { EventEmitter } from "node:events";
+import type { JobStore } from "./job-store.ts";
+import type { Priority, WorkerPool } from "./pool.ts";
+
+export type FileStatus =
+  | "queued"
+  | "processing"
+  | "completed"
+  | "failed"
+  | "cancelled";
+export type JobStatus = "queued" | "processing" | "completed" | "cancelled";
+
+// Outcome of processing a single file (same shape as /v1/download/start)
+export interface DownloadResult {
+  status: "completed" | "failed";
+  downloadUrl: string | null;
+  // When downloadUrl stops working (ISO 8601)
+  expiresAt: string | null;
+  size: number | null;
+  processingTimeMs: number;
+  message: string;
+}
+
+// Where a processing file is in the download flow
+export type DownloadPhase = "waiting" | "checking_storage" | "preparing_url";
+
+// Reported by processFile as it moves through the flow
+export interface DownloadProgress {
+  phase: DownloadPhase;
+  // 0-100
+  progress: number;
+  // null when there is nothing to base an estimate on
+  etaMs: number | null;
+}
+
+export interface JobFile {
+  file_id: number;
+  status: FileStatus;
+  downloadUrl: string | null;
+  expiresAt: string | null;
+  size: number | null;
+  processingTimeMs: number | null;
+  message: string | null;
+  // Times processing restarted after the previous run was interrupted
+  retries: number;
+  // null while queued and once finished
+  phase: DownloadPhase | null;
+  progress: number;
+  etaMs: number | null;
+}
+
+export type BundleStatus =
+  | "pending"
+  | "building"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+// Single zip of every completed file, built once the files are done
+export interface JobBundle {
+  status: BundleStatus;
+  key: string | null;
+  downloadUrl: string | null;
+  expiresAt: string | null;
+  size: number | null;
+  // Files that made it into the zip
+  fileCount: number | null;
+  message: string | null;
+}
+
+// What a bundle builder returns for a finished zip
+export interface BundleResult {
+  key: string;
+  downloadUrl: string;
+  expiresAt: string;
+  size: number;
+  fileCount: number;
+}
+
+export interface Job {
+  jobId: string;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+  priority: Priority;
+  // Who submitted the job (same key as the rate limiter), used for fairness
+  clientKey: string;
+  // X-Tenant-ID of the request, picks the storage route for its files
+  tenant: string | null;
+  callbackUrl: string | null;
+  // Mean of the file progress values
+  progress: number;
+  // Longest file ETA; null while files are still queued
+  etaMs: number | null;
+  // null when the job did not ask for a bundle
+  bundle: JobBundle | null;
+  files: JobFile[];
+}
+
+export type JobEventType =
+  | "job.queued"
+  | "job.processing"
+  | "file.processing"
+  | "file.retried"
+  | "file.progress"
+  | "file.completed"
+  | "file.failed"
+  | "file.cancelled"
+  | "bundle.building"
+  | "bundle.completed"
+  | "bundle.failed"
+  | "bundle.cancelled"
+  | "job.progress"
+  | "job.completed"
+  | "job.cancelled";
+
+// State transition pushed to event stream subscribers. `id` increases
+// monotonically per job so clients can resume with Last-Event-ID.
+export interface JobEvent {
+  id: number;
+  type: JobEventType;
+  data: {
+    jobId: string;
+    status: JobStatus;
+    progress: number;
+    etaMs: number | null;
+    file?: JobFile;
+    bundle?: JobBundle;
+    timestamp: string;
+  };
+}
+
+export type JobEventListener = (event: JobEvent) => void;
+
+export interface JobEngineOptions {
+  store: JobStore;
+  pool: WorkerPool;
+  processFile: (
+    fileId: number,
+    signal: AbortSignal,
+    onProgress: (update: DownloadProgress) => void,
+    tenant: string | null,
+  ) => Promise<DownloadResult>;
+  buildBundle: (
+    jobId: string,
+    files: JobFile[],
+    signal: AbortSignal,
+    tenant: string | null,
+  ) => Promise<BundleResult>;
+  onJobFinished?: (job: Job) => void;
+  // Minimum gap between job.progress events while files report progress
+  progressIntervalMs: number;
+}
+
+export interface CreateJobOptions {
+  priority?: Priority;
+  clientKey?: string;
+  tenant?: string | null;
+  callbackUrl?: string;
+  bundle?: boolean;
+}
+
+// What recover() picked up from the store on startup
+export interface RecoverySummary {
+  jobs: number;
+  // Files that had not started yet
+  requeuedFiles: number;
+  // Files that were mid-download when the previous process died
+  retriedFiles: number;
+}
+
+// "finished" = cancel had nothing left to stop
+export type CancelResult = "cancelled" | "not_found" | "finished";
+
+const isFinished = (file: JobFile): boolean =>
+  file.status === "completed" ||
+  file.status === "failed" ||
+  file.status === "cancelled";
+
+export const isJobFinished = (job: Job): boolean => job.completedAt !== null;
+
+// Last event a job emits, streams close after it
+export const isFinalEvent = (event: JobEvent): boolean =>
+  event.type === "job.completed" || event.type === "job.cancelled";
+
+export const createJobEngine = ({
+  store,
+  pool,
+  processFile,
+  buildBundle,
+  onJobFinished,
+  progressIntervalMs,
+}: JobEngineOptions) => {
+  // Jobs with work still in flight; finished jobs are only read from the store
+  const active = new Map<string, Job>();
+  const lastEventIds = new Map<string, number>();
+  const controllers = new WeakMap<JobFile, AbortController>();
+  const bundleControllers = new WeakMap<Job, AbortController>();
+  const lastProgressAt = new WeakMap<Job, number>();
+  const emitter = new EventEmitter();
+  // One listener per open stream, there can be many per job
+  emitter.setMaxListeners(0);
+
+  const touch = (job: Job) => {
+    job.updatedAt = new Date().toISOString();
+  };
+
+  const updateProgress = (job: Job) => {
+    const total = job.files.reduce((sum, file) => sum + file.progress, 0);
+    job.progress = Math.floor(total / job.files.length);
+    job.etaMs = job.files.some((file) => file.status === "queued")
+      ? null
+      : Math.max(0, ...job.files.map((file) => file.etaMs ?? 0));
+  };
+
+  // Finished files, however they ended, have no work left
+  const settleProgress = (file: JobFile) => {
+    file.phase = null;
+    file.progress = 100;
+    file.etaMs = 0;
+  };
+
+  // Persists the transition before telling subscribers about it. Callers
+  // run detached (void runFile/runBundle), so a failed write is logged
+  // rather than thrown; the next transition writes the job again.
+  const emit = (job: Job, type: JobEventType, file?: JobFile) => {
+    updateProgress(job);
+    lastProgressAt.set(job, Date.now());
+    const id = (lastEventIds.get(job.jobId) ?? 0) + 1;
+    lastEventIds.set(job.jobId, id);
+    const event: JobEvent = {
+      id,
+      type,
+      data: {
+        jobId: job.jobId,
+        status: job.status,
+        progress: job.progress,
+        etaMs: job.etaMs,
+        ...(file && { file: { ...file } }),
+        ...(type.startsWith("bundle.") &&
+          job.bundle && { bundle: { ...job.bundle } }),
+        timestamp: job.updatedAt,
+      },
+    };
+    try {
+      store.updateJob(job);
+      if (file) store.updateFile(job.jobId, file);
+      store.appendEvent(event);
+    } catch (err) {
+      console.error(`[Jobs] Saving ${type} of job=${job.jobId} failed:`, err);
+    }
+    emitter.emit(job.jobId, event);
+  };
+
+  const finishIfDone = (job: Job) => {
+    if (isJobFinished(job) || !job.files.every(isFinished)) return;
+    // The bundle is built last, the job finishes once it settles
+    if (job.bundle?.status === "pending") {
+      if (job.status !== "cancelled") {
+        void runBundle(job, job.bundle);
+        return;
+      }
+      job.bundle.status = "cancelled";
+      job.bundle.message = "Cancelled by request";
+    }
+    if (job.bundle?.status === "building") return;
+
+    if (job.status !== "cancelled") job.status = "completed";
+    job.completedAt = job.updatedAt;
+    emit(job, job.status === "cancelled" ? "job.cancelled" : "job.completed");
+    active.delete(job.jobId);
+    lastEventIds.delete(job.jobId);
+    onJobFinished?.(job);
+  };
+
+  const runBundle = async (job: Job, bundle: JobBundle) => {
+    const controller = new AbortController();
+    bundleControllers.set(job, controller);
+    bundle.status = "building";
+    touch(job);
+    emit(job, "bundle.building");
+
+    const files = job.files.filter((file) => file.status === "completed");
+    let eventType: JobEventType;
+    try {
+      if (files.length === 0) throw new Error("No completed files to bundle");
+      const result = await pool.run(
+        () => buildBundle(job.jobId, files, controller.signal, job.tenant),
+        {
+          signal: controller.signal,
+          priority: job.priority,
+          clientKey: job.clientKey,
+          // Accepted with the job, waits for a worker like its files
+          shed: false,
+        },
+      );
+      Object.assign(bundle, result, {
+        status: "completed",
+        message: `Bundled ${String(result.fileCount)} files`,
+      });
+      eventType = "bundle.completed";
+    } catch (err) {
+      if (controller.signal.aborted) {
+        bundle.status = "cancelled";
+        bundle.message = "Cancelled by request";
+        eventType = "bundle.cancelled";
+      } else {
+        bundle.status = "failed";
+        bundle.message = err instanceof Error ? err.message : String(err);
+        eventType = "bundle.failed";
+      }
+    }
+    bundleControllers.delete(job);
+    touch(job);
+    emit(job, eventType);
+    finishIfDone(job);
+  };
+
+  // Phase changes are recorded as file.progress events. Progress within a
+  // phase only updates the live job, with a job.progress event at most
+  // every progressIntervalMs so a long wait does not flood the event log.
+  const reportProgress = (
+    job: Job,
+    file: JobFile,
+    update: DownloadProgress,
+  ) => {
+    if (file.status !== "processing") return;
+    const phaseChanged = file.phase !== update.phase;
+    Object.assign(file, update);
+
+    if (phaseChanged) {
+      touch(job);
+      emit(job, "file.progress", file);
+    } else if (
+      Date.now() - (lastProgressAt.get(job) ?? 0) >=
+      progressIntervalMs
+    ) {
+      touch(job);
+      emit(job, "job.progress");
+    } else {
+      updateProgress(job);
+    }
+  };
+
+  const runFile = async (job: Job, file: JobFile) => {
+    // Cancelled before it got a chance to start
+    if (file.status !== "queued") return;
+
+    const controller = new AbortController();
+    controllers.set(file, controller);
+
+    const startFile = () => {
+      file.status = "processing";
+      touch(job);
+      if (job.status === "queued") {
+        job.status = "processing";
+        emit(job, "job.processing");
+      }
+      emit(job, "file.processing", file);
+      return processFile(
+        file.file_id,
+        controller.signal,
+        (update) => {
+          reportProgress(job, file, update);
+        },
+        job.tenant,
+      );
+    };
+
+    let eventType: JobEventType;
+    try {
+      // Stays queued until the pool has a free worker. The job was accepted
+      // already, so a full queue must not fail the file.
+      const result = await pool.run(startFile, {
+        signal: controller.signal,
+        priority: job.priority,
+        clientKey: job.clientKey,
+        shed: false,
+      });
+      Object.assign(file, result);
+      eventType = `file.${result.status}`;
+    } catch (err) {
+      if (controller.signal.aborted) {
+        file.status = "cancelled";
+        file.message = "Cancelled by request";
+        eventType = "file.cancelled";
+      } else {
+        file.status = "failed";
+        file.message = err instanceof Error ? err.message : String(err);
+        eventType = "file.failed";
+      }
+    }
+    controllers.delete(file);
+    settleProgress(file);
+    touch(job);
+    emit(job, eventType, file);
+    finishIfDone(job);
+  };
+
+  // Files not yet handed to the pool are settled right away, the rest once
+  // their queued or running work aborts
+  const cancelFiles = (job: Job, files: JobFile[]) => {
+    for (const file of files) {
+      const controller = controllers.get(file);
+      if (controller) {
+        controller.abort();
+      } else {
+        file.status = "cancelled";
+        file.message = "Cancelled by request";
+        settleProgress(file);
+        touch(job);
+        emit(job, "file.cancelled", file);
+      }
+    }
+    finishIfDone(job);
+  };
+
+  const createJob = (
+    fileIds: number[],
+    {
+      priority = "normal",
+      clientKey = "anonymous",
+      tenant,
+      callbackUrl,
+      bundle = false,
+    }: CreateJobOptions = {},
+  ): Job => {
+    const now = new Date().toISOString();
+    const job: Job = {
+      jobId: crypto.randomUUID(),
+      status: "queued",
+      createdAt: now,
+      updatedAt: now,
+      completedAt: null,
+      priority,
+      clientKey,
+      tenant: tenant ?? null,
+      callbackUrl: callbackUrl ?? null,
+      progress: 0,
+      etaMs: null,
+      bundle: bundle
+        ? {
+            status: "pending",
+            key: null,
+            downloadUrl: null,
+            expiresAt: null,
+            size: null,
+            fileCount: null,
+            message: null,
+          }
+        : null,
+      // Duplicate IDs in one request would only repeat the same work
+      files: [...new Set(fileIds)].map((file_id) => ({
+        file_id,
+        status: "queued",
+        downloadUrl: null,
+        expiresAt: null,
+        size: null,
+        processingTimeMs: null,
+        message: null,
+        retries: 0,
+        phase: null,
+        progress: 0,
+        etaMs: null,
+      })),
+    };
+    store.insertJob(job);
+    active.set(job.jobId, job);
+    emit(job, "job.queued");
+
+    // Start work on the next tick so the caller sees the job as queued
+    setImmediate(() => {
+      for (const file of job.files) {
+        void runFile(job, file);
+      }
+    });
+    return job;
+  };
+
+  const getJob = (jobId: string): Job | undefined =>
+    active.get(jobId) ?? store.getJob(jobId);
+
+  const cancelJob = (jobId: string): CancelResult => {
+    const job = active.get(jobId) ?? store.getJob(jobId);
+    if (!job) return "not_found";
+    if (isJobFinished(job)) return "finished";
+
+    job.status = "cancelled";
+    touch(job);
+    cancelFiles(
+      job,
+      job.files.filter((file) => !isFinished(file)),
+    );
+    bundleControllers.get(job)?.abort();
+    return "cancelled";
+  };
+
+  const cancelFile = (jobId: string, fileId: number): CancelResult => {
+    const job = active.get(jobId) ?? store.getJob(jobId);
+    const file = job?.files.find((entry) => entry.file_id === fileId);
+    if (!job || !file) return "not_found";
+    if (isFinished(file)) return "finished";
+
+    cancelFiles(job, [file]);
+    return "cancelled";
+  };
+
+  // Events recorded for a job after the given event ID (for replay on resume)
+  const getEvents = (jobId: string, afterId = 0): JobEvent[] =>
+    store.getEvents(jobId, afterId);
+
+  const subscribe = (jobId: string, listener: JobEventListener) => {
+    emitter.on(jobId, listener);
+    return () => {
+      emitter.off(jobId, listener);
+    };
+  };
+
+  // Resumes jobs a previous process left unfinished. A file still marked
+  // processing holds a stale lease (its worker died with that process), so
+  // it is counted as a retry and queued again with the files never started.
+  const recover = (): RecoverySummary => {
+    const summary: RecoverySummary = {
+      jobs: 0,
+      requeuedFiles: 0,
+      retriedFiles: 0,
+    };
+    for (const job of store.listUnfinishedJobs()) {
+      if (active.has(job.jobId)) continue;
+      active.set(job.jobId, job);
+      lastEventIds.set(job.jobId, store.getLastEventId(job.jobId));
+      summary.jobs++;
+      // An interrupted bundle upload is started over
+      if (job.bundle?.status === "building") job.bundle.status = "pending";
+
+      const pending = job.files.filter((file) => !isFinished(file));
+      // Cancelled before the crash, settle it instead of resuming
+      if (job.status === "cancelled") {
+        cancelFiles(job, pending);
+        continue;
+      }
+
+      for (const file of pending) {
+        if (file.status === "processing") {
+          file.status = "queued";
+          file.phase = null;
+          file.progress = 0;
+          file.etaMs = null;
+          file.retries++;
+          file.message = "Requeued after an interrupted run";
+          touch(job);
+          emit(job, "file.retried", file);
+          summary.retriedFiles++;
+        } else {
+          summary.requeuedFiles++;
+        }
+      }
+      // The last file may have settled right before the crash
+      finishIfDone(job);
+      for (const file of pending) {
+        void runFile(job, file);
+      }
+    }
+    return summary;
+  };
+
+  return {
+    recover,
+    createJob,
+    getJob,
+    cancelJob,
+    cancelFile,
+    getEvents,
+    subscribe,
+  };
+};
+
+export type JobEngine = ReturnType<typeof createJobEngine>;
@@ -0,0 +1,66 @@
+// ============================================
+// Object Key Layout
+// ============================================
+//
+// Where a file ID lives in storage: {prefix}/{shards}/{id}{extension}.
+// Shard directories are the ID's three-digit groups counted from the right,
+// most significant first, the top group without leading zeros:
+//   depth 0: downloads/70000.zip
+//   depth 1: downloads/70/70000.zip
+//   depth 2: downloads/70/000/70000.zip
+//   depth 3: downloads/0/070/000/70000.zip
+// A file may be stored under any of the configured extensions, which are
+// probed in order. Only the ID is variable and the prefix and extensions
+// are validated at startup, so a key can never leave the prefix.
+
+// Path segments that cannot be "." or "..", no leading or trailing slash
+export const KEY_PREFIX_PATTERN =
+  /^$|^[A-Za-z0-9_-][A-Za-z0-9._-]*(\/[A-Za-z0-9_-][A-Za-z0-9._-]*)*$/;
+export const KEY_EXTENSION_PATTERN = /^(\.[A-Za-z0-9]+)+$/;
+// IDs stop at 100M, three groups of three digits
+export const MAX_SHARD_DEPTH = 3;
+
+export interface KeyLayoutOptions {
+  prefix: string;
+  shardDepth: number;
+  // Probe order
+  extensions: string[];
+}
+
+export const createKeyLayout = ({
+  prefix,
+  shardDepth,
+  extensions,
+}: KeyLayoutOptions) => {
+  const shards = (id: number): string[] => {
+    const groups: number[] = [];
+    let rest = id;
+    do {
+      groups.unshift(rest % 1000);
+      rest = Math.floor(rest / 1000);
+    } while (rest > 0);
+    while (groups.length < shardDepth) groups.unshift(0);
+    return groups
+      .slice(0, shardDepth)
+      .map((group, index) =>
+        index === 0 ? String(group) : String(group).padStart(3, "0"),
+      );
+  };
+
+  // Input sanitization for keys - prevent path traversal
+  const keyFor = (fileId: number, extension = extensions[0]): string => {
+    // Ensure fileId is a valid integer within bounds (already validated by Zod)
+    const id = Math.floor(Math.abs(fileId));
+    return [prefix, ...shards(id), `${String(id)}${extension}`]
+      .filter((segment) => segment !== "")
+      .join("/");
+  };
+
+  // Every key the file may be stored under, in probe order
+  const candidates = (fileId: number): string[] =>
+    extensions.map((extension) => keyFor(fileId, extension));
+
+  return { keyFor, candidates };
+};
+
+export type KeyLayout = ReturnType<typeof createKeyLayout>;
@@ -1,4 +1,5 @@
 import type { Context, Next } from "hono";
+import { routePath } from "hono/route";
 import {
   collectDefaultMetrics,
   Counter,
@@ -77,6 +78,35 @@ export const activeDownloads = new Gauge({
   registers: [metricsRegistry],
 });
 
+export const downloadRequestsCoalesced = new Counter({
+  name: "download_requests_coalesced_total",
+  help: "Total number of download requests that joined an in-flight download of the same file",
+  registers: [metricsRegistry],
+});
+
+// ============================================
+// Worker Pool Metrics
+// ============================================
+
+export const workerPoolQueueDepth = new Gauge({
+  name: "worker_pool_queue_depth",
+  help: "Number of downloads waiting for a free worker",
+  registers: [metricsRegistry],
+});
+
+export const workerPoolWaitDuration = new Histogram({
+  name: "worker_pool_wait_seconds",
+  help: "Time downloads spent queued before a worker picked them up",
+  buckets: [0.01, 0.1, 0.5, 1, 5, 15, 30, 60, 120, 300, 600],
+  registers: [metricsRegistry],
+});
+
+export const workerPoolRejectedTotal = new Counter({
+  name: "worker_pool_rejected_total",
+  help: "Total number of downloads rejected because the queue was full",
+  registers: [metricsRegistry],
+});
+
 // ============================================
 // S3 Metrics
 // ============================================
@@ -96,6 +126,87 @@ export const s3OperationDuration = new Histogram({
   registers: [metricsRegistry],
 });
 
+export const s3RetriesTotal = new Counter({
+  name: "s3_retries_total",
+  help: "Total number of S3 operations retried after a transient error",
+  labelNames: ["operation"] as const,
+  registers: [metricsRegistry],
+});
+
+// ============================================
+// Download Proxy Metrics
+// ============================================
+
+export const proxyBytesTotal = new Counter({
+  name: "download_proxy_bytes_total",
+  help: "Total bytes streamed to clients by the download proxy",
+  registers: [metricsRegistry],
+});
+
+// ============================================
+// Upload Metrics
+// ============================================
+
+export const uploadsTotal = new Counter({
+  name: "file_uploads_total",
+  help: "Total file uploads by result",
+  labelNames: ["result"] as const,
+  registers: [metricsRegistry],
+});
+
+export const uploadBytesTotal = new Counter({
+  name: "file_upload_bytes_total",
+  help: "Total bytes stored by accepted file uploads",
+  registers: [metricsRegistry],
+});
+
+// ============================================
+// Webhook Metrics
+// ============================================
+
+export const webhookAttemptsTotal = new Counter({
+  name: "webhook_delivery_attempts_total",
+  help: "Total number of webhook delivery attempts",
+  labelNames: ["status"] as const,
+  registers: [metricsRegistry],
+});
+
+export const webhookDeadLettersTotal = new Counter({
+  name: "webhook_dead_letters_total",
+  help: "Total number of webhook deliveries that exhausted all retries",
+  registers: [metricsRegistry],
+});
+
+// ============================================
+// Job Recovery & Retention Metrics
+// ============================================
+
+export const jobsRecoveredTotal = new Counter({
+  name: "jobs_recovered_total",
+  help: "Total number of unfinished jobs resumed on startup",
+  registers: [metricsRegistry],
+});
+
+export const jobFilesRecoveredTotal = new Counter({
+  name: "job_files_recovered_total",
+  help: "Total number of job files requeued on startup",
+  labelNames: ["outcome"] as const,
+  registers: [metricsRegistry],
+});
+
+export const jobsRetained = new Gauge({
+  name: "jobs_retained",
+  help: "Jobs currently held in the job store, as of the last retention sweep",
+  labelNames: ["state"] as const,
+  registers: [metricsRegistry],
+});
+
+export const jobsExpiredTotal = new Counter({
+  name: "jobs_expired_total",
+  help: "Total number of finished jobs deleted after their TTL",
+  registers: [metricsRegistry],
+});
+
 // ============================================
 // Rate Limiting Metrics
 // ============================================
@@ -122,7 +233,10 @@ export const httpMiddleware = async (c: Context, next: Next) => {
   await next();
 
   const duration = (Date.now() - start) / 1000;
-  const path = new URL(c.req.url).pathname;
+  // Route pattern (/v1/download/status/:jobId) rather than the raw path,
+  // which would start a new series for every job ID and token. The last
+  // matched route is the handler, even when a middleware answered first.
+  const path = routePath(c, -1);
   const method = c.req.method;
   const status = String(c.res.status);
 
@@ -148,6 +262,23 @@ export const downloadFailed = (reason = "unknown") => {
   activeDownloads.dec();
 };
 
+export const downloadCoalesced = () => {
+  downloadRequestsCoalesced.inc();
+};
+
+// Worker pool helper functions
+export const workerPoolQueueDepthChanged = (depth: number) => {
+  workerPoolQueueDepth.set(depth);
+};
+
+export const workerPoolWaited = (waitSeconds: number) => {
+  workerPoolWaitDuration.observe(waitSeconds);
+};
+
+export const workerPoolRejected = () => {
+  workerPoolRejectedTotal.inc();
+};
+
 // S3 operation timer factory
 export const s3OperationTimer = (operation: string) => {
   const start = Date.now();
@@ -157,3 +288,47 @@ export const s3OperationTimer = (operation: string) => {
     s3OperationDuration.observe({ operation }, duration);
   };
 };
+
+export const s3RetryScheduled = (operation: string) => {
+  s3RetriesTotal.inc({ operation });
+};
+
+export const proxyBytesSent = (bytes: number) => {
+  proxyBytesTotal.inc(bytes);
+};
+
+// Upload helper function, result is "stored" or the rejection reason
+export const uploadFinished = (result: string, bytes = 0) => {
+  uploadsTotal.inc({ result });
+  if (bytes > 0) uploadBytesTotal.inc(bytes);
+};
+
+// Webhook helper functions
+export const webhookAttempt = (success: boolean) => {
+  webhookAttemptsTotal.inc({ status: success ? "success" : "error" });
+};
+
+export const webhookDeadLettered = () => {
+  webhookDeadLettersTotal.inc();
+};
+
+// Job recovery helper function
+export const jobsRecovered = (
+  jobs: number,
+  requeuedFiles: number,
+  retriedFiles: number,
+) => {
+  jobsRecoveredTotal.inc(jobs);
+  jobFilesRecoveredTotal.inc({ outcome: "requeued" }, requeuedFiles);
+  jobFilesRecoveredTotal.inc({ outcome: "retried" }, retriedFiles);
+};
+
+// Job retention helper functions
+export const jobsRetainedChanged = (active: number, finished: number) => {
+  jobsRetained.set({ state: "active" }, active);
+  jobsRetained.set({ state: "finished" }, finished);
+};
+
+export const jobsExpired = (count: number) => {
+  jobsExpiredTotal.inc(count);
+};
@@ -0,0 +1,115 @@
+// ============================================
+// Mock Files
+// ============================================
+//
+// What the mock storage backend pretends to hold. Every value is derived
+// from the file ID and MOCK_SEED, so the same ID looks the same on every
+// run; a fixture manifest pins individual IDs down further:
+//   {
+//     "70000": { "size": 1048576, "delayMs": 2000 },
+//     "70007": { "available": false },
+//     "14000": { "failure": "unavailable" }
+//   }
+// Unlisted fields fall back to the derived values. A file is available when
+// its ID is a multiple of 7, and has no failure mode.
+
+import { z } from "@hono/zod-openapi";
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+
+// unavailable = storage cannot be reached (retryable), error = storage
+// rejects the request
+export const MOCK_FAILURE_MODES = ["unavailable", "error"] as const;
+export type MockFailureMode = (typeof MOCK_FAILURE_MODES)[number];
+
+const MockFixtureSchema = z.strictObject({
+  available: z.boolean().optional(),
+  size: z.number().int().min(0).optional(),
+  delayMs: z.number().int().min(0).optional(),
+  failure: z.enum(MOCK_FAILURE_MODES).optional(),
+});
+
+const MockManifestSchema = z.record(
+  z.string().regex(/^\d+$/, "Keys must be file IDs"),
+  MockFixtureSchema,
+);
+
+export type MockFixture = z.infer<typeof MockFixtureSchema>;
+
+export interface MockFile {
+  fileId: number;
+  available: boolean;
+  size: number;
+  etag: string;
+  // Seeds the generated content, so equal digests mean equal bytes
+  digest: Buffer;
+  // Fixture delay; null = derive it from the simulated delay range
+  delayMs: number | null;
+  failure: MockFailureMode | null;
+}
+
+// Reads and validates a fixture manifest, failing startup on bad input
+export const loadMockManifest = (path: string): Map<number, MockFixture> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (err) {
+    throw new Error(
+      `Cannot read mock fixtures from ${path}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+  const parsed = MockManifestSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid mock fixtures in ${path}:\n${z.prettifyError(parsed.error)}`,
+    );
+  }
+  return new Map(
+    Object.entries(parsed.data).map(([fileId, fixture]) => [
+      Number(fileId),
+      fixture,
+    ]),
+  );
+};
+
+export interface MockFilesOptions {
+  seed: string;
+  manifest?: Map<number, MockFixture>;
+}
+
+export const createMockFiles = ({
+  seed,
+  manifest = new Map(),
+}: MockFilesOptions) => {
+  const digestFor = (fileId: number): Buffer =>
+    createHash("sha256")
+      .update(`${seed}:${String(fileId)}`)
+      .digest();
+
+  const get = (fileId: number): MockFile => {
+    const fixture = manifest.get(fileId) ?? {};
+    const digest = digestFor(fileId);
+    const size = fixture.size ?? (digest.readUInt32BE(0) % 10000000) + 1000;
+    return {
+      fileId,
+      available: fixture.available ?? fileId % 7 === 0,
+      size,
+      // The size is part of the ETag so editing a fixture invalidates caches
+      etag: `"${digest.toString("hex", 0, 12)}-${size.toString(16)}"`,
+      digest,
+      delayMs: fixture.delayMs ?? null,
+      failure: fixture.failure ?? null,
+    };
+  };
+
+  // Processing delay within [minMs, maxMs] for files without a fixture
+  // delay, the same on every run
+  const delayMs = (fileId: number, minMs: number, maxMs: number): number => {
+    const span = Math.max(1, maxMs - minMs + 1);
+    return minMs + (digestFor(fileId).readUInt32BE(4) % span);
+  };
+
+  return { get, delayMs };
+};
+
+export type MockFiles = ReturnType<typeof createMockFiles>;
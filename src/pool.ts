@@ -0,0 +1,151 @@
+// ============================================
+// Download Worker Pool
+// ============================================
+//
+// Caps how many downloads run at once. Work beyond the concurrency limit
+// waits in a queue; once the queue is full new work is rejected with
+// QueueFullError so callers can shed load (503 + Retry-After). Work that was
+// already accepted (files of a queued job, recovered jobs, bundles) is run
+// with shed: false and always waits its turn instead; it still counts
+// against the queue, so new requests are turned away until it drains.
+//
+// Queued work is picked by priority first. Within a priority level every
+// client gets its own FIFO and clients are served round-robin, so one
+// client's 1000-file batch cannot starve everyone else.
+
+import {
+  workerPoolQueueDepthChanged,
+  workerPoolRejected,
+  workerPoolWaited,
+} from "./metrics.ts";
+
+export const PRIORITIES = ["high", "normal", "low"] as const;
+export type Priority = (typeof PRIORITIES)[number];
+
+export class QueueFullError extends Error {
+  constructor() {
+    super("Download queue is full");
+    this.name = "QueueFullError";
+  }
+}
+
+interface QueuedTask {
+  start: () => void;
+  enqueuedAt: number;
+}
+
+export interface RunOptions {
+  signal?: AbortSignal;
+  priority?: Priority;
+  clientKey?: string;
+  // false = queue even when full, for work that must not be dropped
+  shed?: boolean;
+}
+
+export interface WorkerPoolOptions {
+  concurrency: number;
+  maxQueue: number;
+}
+
+export const createWorkerPool = ({
+  concurrency,
+  maxQueue,
+}: WorkerPoolOptions) => {
+  // Map insertion order doubles as the round-robin order of clients
+  const levels = new Map<Priority, Map<string, QueuedTask[]>>(
+    PRIORITIES.map((priority) => [priority, new Map()]),
+  );
+  let queued = 0;
+  let active = 0;
+
+  const dequeue = (): QueuedTask | undefined => {
+    for (const clients of levels.values()) {
+      const first = clients.entries().next();
+      if (first.done) continue;
+
+      const [clientKey, tasks] = first.value;
+      const task = tasks.shift();
+      // Move the client to the back of the rotation
+      clients.delete(clientKey);
+      if (tasks.length > 0) clients.set(clientKey, tasks);
+      queued--;
+      return task;
+    }
+    return undefined;
+  };
+
+  const startNext = () => {
+    while (active < concurrency && queued > 0) {
+      dequeue()?.start();
+    }
+    workerPoolQueueDepthChanged(queued);
+  };
+
+  // Free slots: idle workers plus room left in the queue
+  const capacity = (): number =>
+    Math.max(0, concurrency - active) + Math.max(0, maxQueue - queued);
+
+  const run = <T>(
+    task: () => Promise<T>,
+    {
+      signal,
+      priority = "normal",
+      clientKey = "anonymous",
+      shed = true,
+    }: RunOptions = {},
+  ): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason as Error);
+        return;
+      }
+      if (shed && active >= concurrency && queued >= maxQueue) {
+        workerPoolRejected();
+        reject(new QueueFullError());
+        return;
+      }
+
+      const entry: QueuedTask = {
+        enqueuedAt: Date.now(),
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          active++;
+          workerPoolWaited((Date.now() - entry.enqueuedAt) / 1000);
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              active--;
+              startNext();
+            });
+        },
+      };
+
+      const clients = levels.get(priority) ?? new Map<string, QueuedTask[]>();
+
+      // Aborting while still queued frees the queue slot immediately
+      const onAbort = () => {
+        const tasks = clients.get(clientKey) ?? [];
+        const index = tasks.indexOf(entry);
+        if (index === -1) return;
+        tasks.splice(index, 1);
+        if (tasks.length === 0) clients.delete(clientKey);
+        queued--;
+        workerPoolQueueDepthChanged(queued);
+        reject(signal?.reason as Error);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      const tasks = clients.get(clientKey);
+      if (tasks) {
+        tasks.push(entry);
+      } else {
+        clients.set(clientKey, [entry]);
+      }
+      queued++;
+      startNext();
+    });
+
+  return { run, capacity };
+};
+
+export type WorkerPool = ReturnType<typeof createWorkerPool>;
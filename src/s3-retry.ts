@@ -0,0 +1,105 @@
+// ============================================
+// S3 Retry Policy
+// ============================================
+//
+// Tells a missing object apart from a storage hiccup. NotFound is an answer
+// and is never retried; throttling, 5xx and network errors are retried with
+// full-jitter exponential backoff until the time budget runs out; anything
+// else (AccessDenied, bad credentials, ...) fails straight away.
+
+import { setTimeout as sleep } from "node:timers/promises";
+import { s3RetryScheduled } from "./metrics.ts";
+
+export type S3ErrorKind = "not_found" | "transient" | "fatal";
+
+const NOT_FOUND_NAMES = new Set(["NotFound", "NoSuchKey"]);
+const TRANSIENT_NAMES = new Set([
+  "SlowDown",
+  "Throttling",
+  "ThrottlingException",
+  "TooManyRequestsException",
+  "RequestTimeout",
+  "RequestTimeoutException",
+  "InternalError",
+  "ServiceUnavailable",
+  "TimeoutError",
+]);
+const TRANSIENT_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+]);
+
+export const classifyS3Error = (err: unknown): S3ErrorKind => {
+  if (!(err instanceof Error)) return "fatal";
+  const status = (err as { $metadata?: { httpStatusCode?: number } }).$metadata
+    ?.httpStatusCode;
+  const code = (err as NodeJS.ErrnoException).code;
+
+  if (NOT_FOUND_NAMES.has(err.name) || status === 404) return "not_found";
+  if (
+    TRANSIENT_NAMES.has(err.name) ||
+    (code !== undefined && TRANSIENT_CODES.has(code)) ||
+    status === 429 ||
+    (status !== undefined && status >= 500)
+  ) {
+    return "transient";
+  }
+  return "fatal";
+};
+
+// Transient failures outlasted the retry budget
+export class S3RetryExhaustedError extends Error {
+  readonly attempts: number;
+
+  constructor(operation: string, attempts: number, cause: unknown) {
+    super(
+      `${operation} still failing after ${String(attempts)} attempts: ${cause instanceof Error ? cause.message : String(cause)}`,
+      { cause },
+    );
+    this.name = "S3RetryExhaustedError";
+    this.attempts = attempts;
+  }
+}
+
+export interface S3RetryPolicy {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Total time an operation may spend retrying before giving up
+  budgetMs: number;
+}
+
+export const createS3Retry =
+  ({ baseDelayMs, maxDelayMs, budgetMs }: S3RetryPolicy) =>
+  async <T>(
+    operation: string,
+    run: () => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> => {
+    const deadline = Date.now() + budgetMs;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await run();
+      } catch (err) {
+        if (signal?.aborted || classifyS3Error(err) !== "transient") throw err;
+
+        // Full jitter: anywhere between zero and the exponential cap
+        const delayMs = Math.round(
+          Math.random() *
+            Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)),
+        );
+        if (Date.now() + delayMs >= deadline) {
+          throw new S3RetryExhaustedError(operation, attempt, err);
+        }
+        s3RetryScheduled(operation);
+        console.warn(
+          `[S3] ${operation} attempt ${String(attempt)} failed (${(err as Error).name}), retrying in ${String(delayMs)}ms`,
+        );
+        await sleep(delayMs, undefined, { signal });
+      }
+    }
+  };
+
+export type S3Retry = ReturnType<typeof createS3Retry>;
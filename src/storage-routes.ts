@@ -0,0 +1,181 @@
+// ============================================
+// Storage Routes
+// ============================================
+//
+// Sends files to other buckets than the default one, e.g. archived ID
+// ranges kept in a cheaper bucket and region. STORAGE_ROUTES is a JSON list
+// checked in order, the first matching route wins:
+//   [
+//     { "name": "archive", "maxFileId": 4999999, "bucket": "archive",
+//       "region": "eu-north-1" },
+//     { "name": "acme", "tenant": "acme", "bucket": "acme-downloads",
+//       "endpoint": "https://s3.acme.example", "accessKeyId": "...",
+//       "secretAccessKey": "..." }
+//   ]
+// A route matches on its tenant (X-Tenant-ID), its inclusive file ID range,
+// or both when it has both. Unset connection fields fall back to the S3_*
+// settings; accessKeyId and secretAccessKey are set together or not at all.
+// Files no route matches stay on the default storage backend.
+//
+// A tenant picks a bucket and its credentials, so the header is only
+// trusted with that tenant's bearer token. TENANT_TOKENS is a JSON object
+// of tenant to token, e.g. { "acme": "..." }, and every tenant a route
+// names needs one.
+
+import { z } from "@hono/zod-openapi";
+import type { StorageBackend } from "./storage.ts";
+
+// Name the default backend is reported under
+export const DEFAULT_ROUTE = "default";
+
+const StorageRouteSchema = z
+  .strictObject({
+    name: z
+      .string()
+      .regex(/^[A-Za-z0-9._-]+$/)
+      .refine((name) => name !== DEFAULT_ROUTE, "Name is reserved"),
+    tenant: z.string().min(1).optional(),
+    minFileId: z.number().int().optional(),
+    maxFileId: z.number().int().optional(),
+    bucket: z.string().min(1),
+    region: z.string().min(1).optional(),
+    endpoint: z.url().optional(),
+    accessKeyId: z.string().min(1).optional(),
+    secretAccessKey: z.string().min(1).optional(),
+    forcePathStyle: z.boolean().optional(),
+  })
+  .refine(
+    (route) =>
+      route.tenant !== undefined ||
+      route.minFileId !== undefined ||
+      route.maxFileId !== undefined,
+    "A route needs a tenant or a file ID range",
+  )
+  .refine(
+    (route) =>
+      (route.accessKeyId === undefined) ===
+      (route.secretAccessKey === undefined),
+    "accessKeyId and secretAccessKey must be set together",
+  );
+
+const StorageRoutesSchema = z
+  .array(StorageRouteSchema)
+  .refine(
+    (routes) =>
+      new Set(routes.map((route) => route.name)).size === routes.length,
+    "Route names must be unique",
+  );
+
+export type StorageRouteConfig = z.infer<typeof StorageRouteSchema>;
+
+// Parses and validates STORAGE_ROUTES, failing startup on bad input
+export const parseStorageRoutes = (json: string): StorageRouteConfig[] => {
+  if (json.trim() === "") return [];
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (err) {
+    throw new Error(
+      `STORAGE_ROUTES is not valid JSON: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+  const parsed = StorageRoutesSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid STORAGE_ROUTES:\n${z.prettifyError(parsed.error)}`,
+    );
+  }
+  return parsed.data;
+};
+
+const TenantTokensSchema = z.record(z.string().min(1), z.string().min(1));
+
+// Parses and validates TENANT_TOKENS against the tenants the routes name
+export const parseTenantTokens = (
+  json: string,
+  routes: StorageRouteConfig[],
+): Map<string, string> => {
+  let raw: unknown = {};
+  if (json.trim() !== "") {
+    try {
+      raw = JSON.parse(json);
+    } catch (err) {
+      throw new Error(
+        `TENANT_TOKENS is not valid JSON: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  }
+  const parsed = TenantTokensSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid TENANT_TOKENS:\n${z.prettifyError(parsed.error)}`);
+  }
+  const tokens = new Map(Object.entries(parsed.data));
+  for (const { name, tenant } of routes) {
+    if (tenant !== undefined && !tokens.has(tenant)) {
+      throw new Error(
+        `STORAGE_ROUTES route ${name} is for tenant ${tenant}, which has no token in TENANT_TOKENS`,
+      );
+    }
+  }
+  return tokens;
+};
+
+export interface StorageTarget {
+  name: string;
+  storage: StorageBackend;
+}
+
+export interface StorageRouterOptions {
+  fallback: StorageBackend;
+  routes: StorageRouteConfig[];
+  // One backend (and S3 client) per route, created up front
+  createTarget: (route: StorageRouteConfig) => StorageBackend;
+}
+
+export const createStorageRouter = ({
+  fallback,
+  routes,
+  createTarget,
+}: StorageRouterOptions) => {
+  const defaultTarget: StorageTarget = {
+    name: DEFAULT_ROUTE,
+    storage: fallback,
+  };
+  const targets = routes.map((route) => ({
+    route,
+    target: { name: route.name, storage: createTarget(route) },
+  }));
+
+  const matches = (
+    route: StorageRouteConfig,
+    fileId: number,
+    tenant: string | null,
+  ): boolean =>
+    (route.tenant === undefined || route.tenant === tenant) &&
+    (route.minFileId === undefined || fileId >= route.minFileId) &&
+    (route.maxFileId === undefined || fileId <= route.maxFileId);
+
+  const forFile = (fileId: number, tenant: string | null): StorageTarget =>
+    targets.find(({ route }) => matches(route, fileId, tenant))?.target ??
+    defaultTarget;
+
+  // Every backend by name, checked in parallel
+  const health = async (): Promise<Record<string, boolean>> => {
+    const all = [defaultTarget, ...targets.map(({ target }) => target)];
+    const results = await Promise.all(
+      all.map(({ storage }) => storage.health()),
+    );
+    return Object.fromEntries(
+      all.map(({ name }, index) => [name, results[index]]),
+    );
+  };
+
+  const close = () => {
+    fallback.close();
+    for (const { target } of targets) target.storage.close();
+  };
+
+  return { forFile, health, close };
+};
+
+export type StorageRouter = ReturnType<typeof createStorageRouter>;
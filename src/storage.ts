@@ -0,0 +1,707 @@
+// ============================================
+// Storage Backends
+// ============================================
+//
+// Every object the service reads or writes goes through a StorageBackend:
+//   s3    - the configured bucket (MinIO and friends via S3_ENDPOINT)
+//   local - files under a directory, keys are paths relative to it
+//   mock  - no storage at all; made-up objects with generated content,
+//           described by MockFiles
+// Missing objects reject with ObjectNotFoundError and conditional reads that
+// cannot be served as asked reject with ConditionalReadError on every
+// backend, so callers never deal with backend-specific errors.
+
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  paginateListObjectsV2,
+} from "@aws-sdk/client-s3";
+import type { S3Client } from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { createHash, randomUUID } from "node:crypto";
+import {
+  constants,
+  createReadStream,
+  createWriteStream,
+  mkdirSync,
+} from "node:fs";
+import {
+  access,
+  link,
+  mkdir,
+  readdir,
+  rename,
+  rm,
+  stat,
+} from "node:fs/promises";
+import { basename, dirname, resolve, sep } from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { MockFiles } from "./mock-files.ts";
+import { classifyS3Error } from "./s3-retry.ts";
+import type { S3Retry } from "./s3-retry.ts";
+
+export const STORAGE_BACKENDS = ["s3", "local", "mock"] as const;
+export type StorageBackendKind = (typeof STORAGE_BACKENDS)[number];
+
+export interface ObjectInfo {
+  key: string;
+  size: number;
+  etag: string | null;
+  lastModified: Date | null;
+  contentType: string | null;
+}
+
+export interface ReadOptions {
+  // Single HTTP byte range, e.g. "bytes=1048576-"
+  range?: string;
+  ifNoneMatch?: string;
+  ifMatch?: string;
+  ifUnmodifiedSince?: Date;
+  signal?: AbortSignal;
+}
+
+export interface ObjectStream {
+  body: Readable;
+  // Bytes in body, the range length for ranged reads
+  contentLength: number;
+  // Set when a range was served, e.g. "bytes 0-1023/4096"
+  contentRange: string | null;
+  etag: string | null;
+  lastModified: Date | null;
+  contentType: string | null;
+}
+
+export interface WriteOptions {
+  contentType?: string;
+  // "*" = only create, rejecting with ObjectExistsError when the key is
+  // already taken (decided atomically by the backend)
+  ifNoneMatch?: "*";
+  signal?: AbortSignal;
+}
+
+export interface StorageBackend {
+  kind: StorageBackendKind;
+  head: (key: string, signal?: AbortSignal) => Promise<ObjectInfo>;
+  get: (key: string, options?: ReadOptions) => Promise<ObjectStream>;
+  list: (prefix: string) => AsyncIterable<ObjectInfo>;
+  // Aborting the signal discards the partly written object
+  put: (
+    key: string,
+    body: Readable,
+    options?: WriteOptions,
+  ) => Promise<ObjectInfo>;
+  // Missing keys are not an error
+  delete: (key: string) => Promise<void>;
+  health: () => Promise<boolean>;
+  // Link clients can download from directly; backends without one are only
+  // reachable through this service
+  presign?: (key: string, expiresInSeconds: number) => Promise<string>;
+  close: () => void;
+}
+
+export class ObjectNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Object ${key} not found`);
+    this.name = "ObjectNotFoundError";
+  }
+}
+
+// A create-only write found the key already taken
+export class ObjectExistsError extends Error {
+  constructor(key: string) {
+    super(`Object ${key} already exists`);
+    this.name = "ObjectExistsError";
+  }
+}
+
+// The backend cannot be reached right now, worth trying again later
+export class StorageUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageUnavailableError";
+  }
+}
+
+// A conditional or ranged read that cannot be served as asked:
+// 304 (If-None-Match matched), 412 (If-Match / If-Unmodified-Since failed)
+// or 416 (range outside the object)
+export class ConditionalReadError extends Error {
+  readonly status: 304 | 412 | 416;
+  readonly etag: string | null;
+  // Full object size when known, for Content-Range on 416
+  readonly size: number | null;
+
+  constructor(
+    status: 304 | 412 | 416,
+    etag: string | null,
+    size: number | null,
+  ) {
+    super(`Conditional read failed with ${String(status)}`);
+    this.name = "ConditionalReadError";
+    this.status = status;
+    this.etag = etag;
+    this.size = size;
+  }
+}
+
+// ============================================
+// Shared read planning (local and mock)
+// ============================================
+
+interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Single "bytes=" range per RFC 9110. null = serve the whole object, the
+// same as S3 does for ranges it does not understand.
+const parseRange = (
+  header: string,
+  size: number,
+): ByteRange | null | "unsatisfiable" => {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (match[1] === "" && match[2] === "")) return null;
+  if (match[1] === "") {
+    const suffix = Number(match[2]);
+    if (suffix === 0 || size === 0) return "unsatisfiable";
+    return { start: Math.max(0, size - suffix), end: size - 1 };
+  }
+  const start = Number(match[1]);
+  if (start >= size) return "unsatisfiable";
+  const end = match[2] === "" ? size - 1 : Number(match[2]);
+  if (end < start) return null;
+  return { start, end: Math.min(end, size - 1) };
+};
+
+const etagMatches = (header: string, etag: string | null): boolean =>
+  etag !== null &&
+  header
+    .split(",")
+    .map((value) => value.trim().replace(/^W\//, ""))
+    .some((value) => value === "*" || value === etag);
+
+// Applies the read conditions to an object and picks the bytes to send
+const planRead = (
+  object: ObjectInfo,
+  { range, ifNoneMatch, ifMatch, ifUnmodifiedSince }: ReadOptions,
+): ByteRange | null => {
+  const { etag, size, lastModified } = object;
+  if (ifMatch !== undefined && !etagMatches(ifMatch, etag)) {
+    throw new ConditionalReadError(412, etag, size);
+  }
+  // HTTP dates have whole-second resolution
+  if (
+    ifUnmodifiedSince &&
+    lastModified &&
+    Math.floor(lastModified.getTime() / 1000) >
+      Math.floor(ifUnmodifiedSince.getTime() / 1000)
+  ) {
+    throw new ConditionalReadError(412, etag, size);
+  }
+  if (ifNoneMatch !== undefined && etagMatches(ifNoneMatch, etag)) {
+    throw new ConditionalReadError(304, etag, size);
+  }
+  if (range === undefined) return null;
+  const byteRange = parseRange(range, size);
+  if (byteRange === "unsatisfiable") {
+    throw new ConditionalReadError(416, etag, size);
+  }
+  return byteRange;
+};
+
+const toStream = (
+  object: ObjectInfo,
+  byteRange: ByteRange | null,
+  body: Readable,
+): ObjectStream => ({
+  body,
+  contentLength: byteRange ? byteRange.end - byteRange.start + 1 : object.size,
+  contentRange: byteRange
+    ? `bytes ${String(byteRange.start)}-${String(byteRange.end)}/${String(object.size)}`
+    : null,
+  etag: object.etag,
+  lastModified: object.lastModified,
+  contentType: object.contentType,
+});
+
+// ============================================
+// S3
+// ============================================
+
+export interface S3StorageOptions {
+  client: S3Client;
+  bucket: string;
+  retry: S3Retry;
+  // Multipart part size for put (S3 minimum is 5 MiB)
+  partSizeBytes: number;
+}
+
+const statusOf = (err: unknown): number | undefined =>
+  (err as { $metadata?: { httpStatusCode?: number } }).$metadata
+    ?.httpStatusCode;
+
+const headerOf = (err: unknown, name: string): string | undefined =>
+  (err as { $response?: { headers: Record<string, string | undefined> } })
+    .$response?.headers[name];
+
+export const createS3Storage = ({
+  client,
+  bucket,
+  retry,
+  partSizeBytes,
+}: S3StorageOptions): StorageBackend => {
+  const send = async <T>(
+    operation: string,
+    key: string,
+    run: () => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> => {
+    try {
+      return await retry(operation, run, signal);
+    } catch (err) {
+      if (classifyS3Error(err) === "not_found") {
+        throw new ObjectNotFoundError(key);
+      }
+      throw err;
+    }
+  };
+
+  const head = async (key: string, signal?: AbortSignal) => {
+    const command = new HeadObjectCommand({ Bucket: bucket, Key: key });
+    const response = await send(
+      "HeadObject",
+      key,
+      () => client.send(command, { abortSignal: signal }),
+      signal,
+    );
+    return {
+      key,
+      size: response.ContentLength ?? 0,
+      etag: response.ETag ?? null,
+      lastModified: response.LastModified ?? null,
+      contentType: response.ContentType ?? null,
+    };
+  };
+
+  const get = async (
+    key: string,
+    {
+      range,
+      ifNoneMatch,
+      ifMatch,
+      ifUnmodifiedSince,
+      signal,
+    }: ReadOptions = {},
+  ): Promise<ObjectStream> => {
+    const command = new GetObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      Range: range,
+      IfNoneMatch: ifNoneMatch,
+      IfMatch: ifMatch,
+      IfUnmodifiedSince: ifUnmodifiedSince,
+    });
+    try {
+      const response = await send(
+        "GetObject",
+        key,
+        () => client.send(command, { abortSignal: signal }),
+        signal,
+      );
+      return {
+        body: response.Body as Readable,
+        contentLength: response.ContentLength ?? 0,
+        contentRange: response.ContentRange ?? null,
+        etag: response.ETag ?? null,
+        lastModified: response.LastModified ?? null,
+        contentType: response.ContentType ?? null,
+      };
+    } catch (err) {
+      const status = statusOf(err);
+      if (status === 304 || status === 412 || status === 416) {
+        throw new ConditionalReadError(
+          status,
+          headerOf(err, "etag") ?? null,
+          null,
+        );
+      }
+      throw err;
+    }
+  };
+
+  async function* list(prefix: string): AsyncIterable<ObjectInfo> {
+    const pages = paginateListObjectsV2(
+      { client },
+      { Bucket: bucket, Prefix: prefix },
+    );
+    for await (const page of pages) {
+      for (const object of page.Contents ?? []) {
+        yield {
+          key: object.Key ?? "",
+          size: object.Size ?? 0,
+          etag: object.ETag ?? null,
+          lastModified: object.LastModified ?? null,
+          contentType: null,
+        };
+      }
+    }
+  }
+
+  const put = async (
+    key: string,
+    body: Readable,
+    { contentType, ifNoneMatch, signal }: WriteOptions = {},
+  ) => {
+    signal?.throwIfAborted();
+    const upload = new Upload({
+      client,
+      // IfNoneMatch goes on PutObject or CompleteMultipartUpload, whichever
+      // finishes the upload
+      params: {
+        Bucket: bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        IfNoneMatch: ifNoneMatch,
+      },
+      partSize: partSizeBytes,
+      queueSize: 2,
+    });
+    // Without the abort a truncated body would be completed as a valid
+    // object
+    const onAbort = () => {
+      void upload.abort();
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    try {
+      await upload.done();
+    } catch (err) {
+      // 409 = a concurrent conditional write to the same key won
+      const status = statusOf(err);
+      if (ifNoneMatch && (status === 412 || status === 409)) {
+        throw new ObjectExistsError(key);
+      }
+      throw err;
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+    return head(key, signal);
+  };
+
+  const remove = async (key: string) => {
+    const command = new DeleteObjectCommand({ Bucket: bucket, Key: key });
+    await send("DeleteObject", key, () => client.send(command));
+  };
+
+  const health = async () => {
+    try {
+      // Use a lightweight HEAD request on a known path
+      await head("__health_check_marker__");
+      return true;
+    } catch (err) {
+      // NotFound is fine - bucket is accessible
+      if (err instanceof ObjectNotFoundError) return true;
+      // AccessDenied or other errors indicate connection issues
+      return false;
+    }
+  };
+
+  const presign = (key: string, expiresInSeconds: number) =>
+    getSignedUrl(
+      client,
+      new GetObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        // Saved under the object's own name rather than the URL path
+        ResponseContentDisposition: `attachment; filename="${basename(key)}"`,
+      }),
+      { expiresIn: expiresInSeconds },
+    );
+
+  return {
+    kind: "s3",
+    head,
+    get,
+    list,
+    put,
+    delete: remove,
+    health,
+    presign,
+    close: () => {
+      client.destroy();
+    },
+  };
+};
+
+// ============================================
+// Local directory
+// ============================================
+
+// In-progress writes, hidden from list
+const PARTIAL_SUFFIX = ".partial";
+
+export const createLocalStorage = (directory: string): StorageBackend => {
+  const root = resolve(directory);
+  mkdirSync(root, { recursive: true });
+
+  // Keys resolving outside the root do not exist as far as callers go
+  const pathFor = (key: string): string => {
+    const path = resolve(root, key);
+    if (!path.startsWith(root + sep)) throw new ObjectNotFoundError(key);
+    return path;
+  };
+
+  const head = async (key: string) => {
+    const path = pathFor(key);
+    const stats = await stat(path).catch((err: unknown) => {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new ObjectNotFoundError(key);
+      }
+      throw err;
+    });
+    if (!stats.isFile()) throw new ObjectNotFoundError(key);
+    return {
+      key,
+      size: stats.size,
+      // Changes whenever the file is rewritten, like a web server's ETag
+      etag: `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`,
+      lastModified: stats.mtime,
+      contentType: null,
+    };
+  };
+
+  const get = async (key: string, options: ReadOptions = {}) => {
+    const object = await head(key);
+    const byteRange = planRead(object, options);
+    const body = createReadStream(pathFor(key), {
+      ...byteRange,
+      signal: options.signal,
+    });
+    return toStream(object, byteRange, body);
+  };
+
+  async function* list(prefix: string): AsyncIterable<ObjectInfo> {
+    const entries = await readdir(root, { recursive: true });
+    for (const entry of entries.sort()) {
+      const key = entry.split(sep).join("/");
+      if (!key.startsWith(prefix) || key.endsWith(PARTIAL_SUFFIX)) continue;
+      try {
+        yield await head(key);
+      } catch (err) {
+        // Directories, and files deleted while listing
+        if (!(err instanceof ObjectNotFoundError)) throw err;
+      }
+    }
+  }
+
+  // Written next to the target and renamed into place, so readers never
+  // see a half-written file. Create-only writes hard-link instead, which
+  // fails if the target exists.
+  const put = async (
+    key: string,
+    body: Readable,
+    { ifNoneMatch, signal }: WriteOptions = {},
+  ) => {
+    const path = pathFor(key);
+    const partial = `${path}.${randomUUID()}${PARTIAL_SUFFIX}`;
+    await mkdir(dirname(path), { recursive: true });
+    try {
+      await pipeline(body, createWriteStream(partial), { signal });
+      if (ifNoneMatch) {
+        await link(partial, path).catch((err: unknown) => {
+          if ((err as NodeJS.ErrnoException).code === "EEXIST") {
+            throw new ObjectExistsError(key);
+          }
+          throw err;
+        });
+      } else {
+        await rename(partial, path);
+      }
+    } finally {
+      await rm(partial, { force: true });
+    }
+    return head(key);
+  };
+
+  const remove = async (key: string) => {
+    let path: string;
+    try {
+      path = pathFor(key);
+    } catch {
+      return;
+    }
+    await rm(path, { force: true });
+  };
+
+  const health = async () => {
+    try {
+      await access(root, constants.R_OK | constants.W_OK);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  return {
+    kind: "local",
+    head,
+    get,
+    list,
+    put,
+    delete: remove,
+    health,
+    close: () => undefined,
+  };
+};
+
+// ============================================
+// Mock
+// ============================================
+
+const MOCK_BLOCK_BYTES = 64 * 1024;
+
+// Repeats the digest, so every read of an object returns the same bytes
+const mockContent = (digest: Buffer, { start, end }: ByteRange): Readable => {
+  const block = Buffer.alloc(MOCK_BLOCK_BYTES + digest.length, digest);
+  function* chunks() {
+    for (let offset = start; offset <= end; offset += MOCK_BLOCK_BYTES) {
+      const length = Math.min(MOCK_BLOCK_BYTES, end - offset + 1);
+      const shift = offset % digest.length;
+      yield block.subarray(shift, shift + length);
+    }
+  }
+  return Readable.from(chunks());
+};
+
+export interface MockStorageOptions {
+  files: MockFiles;
+}
+
+// Keys ending in a file ID and extensions (downloads/70/000/70000.tar.gz)
+// are looked up in files.
+// Written objects (uploads, bundles) are kept in memory and read back as
+// written, so a bundle is a zip clients can open.
+export const createMockStorage = ({
+  files,
+}: MockStorageOptions): StorageBackend => {
+  const written = new Map<string, { object: ObjectInfo; content: Buffer }>();
+
+  const lookup = (
+    key: string,
+  ): { object: ObjectInfo; digest: Buffer; content?: Buffer } => {
+    const stored = written.get(key);
+    if (stored) {
+      return {
+        ...stored,
+        digest: createHash("sha256").update(key).digest(),
+      };
+    }
+
+    const match = /(\d+)(?:\.[A-Za-z0-9]+)*$/.exec(key);
+    if (!match) throw new ObjectNotFoundError(key);
+    const file = files.get(Number(match[1]));
+    if (file.failure === "unavailable") {
+      throw new StorageUnavailableError(`Mock storage unavailable for ${key}`);
+    }
+    if (file.failure === "error") {
+      throw new Error(`Mock storage error for ${key}`);
+    }
+    if (!file.available) throw new ObjectNotFoundError(key);
+    return {
+      object: {
+        key,
+        size: file.size,
+        etag: file.etag,
+        lastModified: null,
+        contentType: "application/zip",
+      },
+      digest: file.digest,
+    };
+  };
+
+  const head = (key: string) =>
+    Promise.resolve(key).then((k) => lookup(k).object);
+
+  const get = (key: string, options: ReadOptions = {}) =>
+    Promise.resolve(key).then((k) => {
+      const { object, digest, content } = lookup(k);
+      const byteRange = planRead(object, options);
+      const { start, end } = byteRange ?? { start: 0, end: object.size - 1 };
+      const body = content
+        ? Readable.from([content.subarray(start, end + 1)])
+        : mockContent(digest, { start, end });
+      return toStream(object, byteRange, body);
+    });
+
+  const list = (prefix: string): AsyncIterable<ObjectInfo> =>
+    Readable.from(
+      [...written.values()]
+        .map(({ object }) => object)
+        .filter((object) => object.key.startsWith(prefix))
+        .sort((a, b) => a.key.localeCompare(b.key)),
+    );
+
+  const put = async (
+    key: string,
+    body: Readable,
+    { contentType, ifNoneMatch, signal }: WriteOptions = {},
+  ) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of body) {
+      signal?.throwIfAborted();
+      chunks.push(chunk as Buffer);
+    }
+    const content = Buffer.concat(chunks);
+    if (ifNoneMatch) {
+      try {
+        lookup(key);
+        throw new ObjectExistsError(key);
+      } catch (err) {
+        if (!(err instanceof ObjectNotFoundError)) throw err;
+      }
+    }
+    const object: ObjectInfo = {
+      key,
+      size: content.length,
+      etag: `"${randomUUID().replaceAll("-", "")}"`,
+      lastModified: new Date(),
+      contentType: contentType ?? null,
+    };
+    written.set(key, { object, content });
+    return object;
+  };
+
+  return {
+    kind: "mock",
+    head,
+    get,
+    list,
+    put,
+    // Generated objects cannot be deleted, only written ones
+    delete: (key) => {
+      written.delete(key);
+      return Promise.resolve();
+    },
+    health: () => Promise.resolve(true),
+    close: () => undefined,
+  };
+};
+
+export interface StorageConfig {
+  s3: S3StorageOptions;
+  localDirectory: string;
+  mock: MockStorageOptions;
+}
+
+export const createStorage = (
+  kind: StorageBackendKind,
+  { s3, localDirectory, mock }: StorageConfig,
+): StorageBackend => {
+  if (kind === "s3") return createS3Storage(s3);
+  return kind === "local"
+    ? createLocalStorage(localDirectory)
+    : createMockStorage(mock);
+};
@@ -0,0 +1,186 @@
+// ============================================
+// File Uploads
+// ============================================
+//
+// Puts files into storage through the API instead of out-of-band bucket
+// tooling. Bodies are streamed straight into storage (multipart upload on
+// S3) while a byte counter enforces the size limit. Every object is served
+// as {id}.zip, so besides the declared content type the first bytes must
+// carry a zip signature. A rejected upload aborts the write, nothing partial
+// is left behind.
+
+import Busboy from "busboy";
+import { Transform } from "node:stream";
+import type { Readable } from "node:stream";
+import type { ObjectInfo, StorageBackend } from "./storage.ts";
+
+export type UploadFailure =
+  | "malformed"
+  | "empty"
+  | "too_large"
+  | "unsupported_type"
+  | "not_a_zip";
+
+const FAILURE_MESSAGES: Record<UploadFailure, string> = {
+  malformed: "Expected a multipart form with a file field or a raw body",
+  empty: "Uploaded file is empty",
+  too_large: "Uploaded file exceeds the size limit",
+  unsupported_type: "Content type is not accepted for uploads",
+  not_a_zip: "Uploaded file is not a zip archive",
+};
+
+export class UploadRejectedError extends Error {
+  readonly reason: UploadFailure;
+
+  constructor(reason: UploadFailure) {
+    super(FAILURE_MESSAGES[reason]);
+    this.name = "UploadRejectedError";
+    this.reason = reason;
+  }
+}
+
+// Key extension every upload is stored under
+export const UPLOAD_EXTENSION = ".zip";
+
+// Local file header, or the end record of an empty archive
+const ZIP_SIGNATURES = [
+  Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+  Buffer.from([0x50, 0x4b, 0x05, 0x06]),
+];
+const SIGNATURE_BYTES = 4;
+
+export interface UploadSource {
+  body: Readable;
+  contentType: string;
+}
+
+// The first "file" part of a multipart/form-data body. Resolves as soon as
+// the part starts, its bytes are read from the returned stream.
+export const fileFromMultipart = (
+  headers: Record<string, string>,
+  body: Readable,
+): Promise<UploadSource> =>
+  new Promise((resolve, reject) => {
+    let parser: Busboy.Busboy;
+    try {
+      parser = Busboy({ headers, limits: { files: 1 } });
+    } catch {
+      reject(new UploadRejectedError("malformed"));
+      return;
+    }
+    let found = false;
+    parser.on("file", (name, stream, info) => {
+      if (found || name !== "file") {
+        stream.resume();
+        return;
+      }
+      found = true;
+      resolve({ body: stream, contentType: info.mimeType });
+    });
+    parser.on("error", () => {
+      reject(new UploadRejectedError("malformed"));
+    });
+    parser.on("close", () => {
+      if (!found) reject(new UploadRejectedError("malformed"));
+    });
+    body.pipe(parser);
+  });
+
+export interface UploaderOptions {
+  maxBytes: number;
+  // Lowercase media types without parameters
+  allowedContentTypes: string[];
+}
+
+export const createUploader = ({
+  maxBytes,
+  allowedContentTypes,
+}: UploaderOptions) => {
+  const checkContentType = (contentType: string | undefined) => {
+    const mediaType = (contentType ?? "").split(";")[0].trim().toLowerCase();
+    if (!allowedContentTypes.includes(mediaType)) {
+      throw new UploadRejectedError("unsupported_type");
+    }
+  };
+
+  // Turns down requests whose headers already rule them out, before any of
+  // the body is read
+  const precheck = (contentLength: string | undefined) => {
+    if (contentLength !== undefined && Number(contentLength) > maxBytes) {
+      throw new UploadRejectedError("too_large");
+    }
+  };
+
+  const store = async (
+    storage: StorageBackend,
+    key: string,
+    { body, contentType }: UploadSource,
+    signal: AbortSignal,
+  ): Promise<ObjectInfo> => {
+    checkContentType(contentType);
+
+    let received = 0;
+    let signature = Buffer.alloc(0);
+    const rejected = new AbortController();
+    const reject = (reason: UploadFailure) => {
+      const rejection = new UploadRejectedError(reason);
+      rejected.abort(rejection);
+      return rejection;
+    };
+
+    const guard = new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        received += chunk.length;
+        if (received > maxBytes) {
+          callback(reject("too_large"));
+          return;
+        }
+        if (signature.length < SIGNATURE_BYTES) {
+          signature = Buffer.concat([signature, chunk]).subarray(
+            0,
+            SIGNATURE_BYTES,
+          );
+          if (
+            signature.length === SIGNATURE_BYTES &&
+            !ZIP_SIGNATURES.some((magic) => magic.equals(signature))
+          ) {
+            callback(reject("not_a_zip"));
+            return;
+          }
+        }
+        callback(null, chunk);
+      },
+      flush: (callback) => {
+        if (received === 0) callback(reject("empty"));
+        else if (signature.length < SIGNATURE_BYTES) {
+          callback(reject("not_a_zip"));
+        } else callback();
+      },
+    });
+    body.on("error", (err) => guard.destroy(err));
+    // Storage may only start reading after the guard has already failed,
+    // the failure reaches it through the destroyed stream and the signal
+    guard.on("error", () => undefined);
+    body.pipe(guard);
+
+    try {
+      // Never replaces a file, even one stored since the caller checked
+      return await storage.put(key, guard, {
+        contentType: "application/zip",
+        ifNoneMatch: "*",
+        signal: AbortSignal.any([signal, rejected.signal]),
+      });
+    } catch (err) {
+      // The storage error is only a consequence of the rejection
+      if (rejected.signal.aborted) throw rejected.signal.reason as Error;
+      throw err;
+    } finally {
+      // Drain whatever the client still sends so the response can go out
+      body.resume();
+    }
+  };
+
+  return { precheck, store };
+};
+
+export type Uploader = ReturnType<typeof createUploader>;
@@ -0,0 +1,260 @@
+// ============================================
+// Webhook Callbacks
+// ============================================
+//
+// POSTs finished job results to the callbackUrl given at initiate time.
+// Every request is signed so receivers can verify it came from us:
+//   X-Webhook-Timestamp: unix seconds
+//   X-Webhook-Signature: sha256=HMAC_SHA256(secret, `${timestamp}.${body}`)
+// Failed attempts are retried with exponential backoff; after maxAttempts
+// the delivery is kept as a dead-letter record for inspection. Deliveries
+// and their bodies are in the job store, so resume() picks retries up again
+// at their nextAttemptAt after a restart.
+//
+// Callbacks only go to public hosts: a URL whose host is or resolves to a
+// loopback, private, link-local or otherwise internal address is refused
+// at initiate time and checked again before every attempt, unless the host
+// is listed in allowedHosts.
+
+import { createHmac } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import type { JobStore } from "./job-store.ts";
+import { webhookAttempt, webhookDeadLettered } from "./metrics.ts";
+
+export type DeliveryStatus = "pending" | "delivered" | "dead_letter";
+
+export interface DeliveryAttempt {
+  attempt: number;
+  attemptedAt: string;
+  statusCode: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  deliveryId: string;
+  jobId: string;
+  url: string;
+  status: DeliveryStatus;
+  attempts: DeliveryAttempt[];
+  nextAttemptAt: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export interface WebhookDispatcherOptions {
+  store: JobStore;
+  secret: string;
+  maxAttempts: number;
+  baseDelayMs: number;
+  timeoutMs: number;
+  // Hostnames exempt from the internal address check
+  allowedHosts: string[];
+}
+
+// Addresses no callback may reach (IPv4-mapped IPv6 addresses match the
+// IPv4 ranges)
+const INTERNAL_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  // Multicast, reserved and broadcast
+  ["224.0.0.0", 3],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+const signPayload = (secret: string, timestamp: number, body: string): string =>
+  `sha256=${createHmac("sha256", secret)
+    .update(`${String(timestamp)}.${body}`)
+    .digest("hex")}`;
+
+export const createWebhookDispatcher = ({
+  store,
+  secret,
+  maxAttempts,
+  baseDelayMs,
+  timeoutMs,
+  allowedHosts,
+}: WebhookDispatcherOptions) => {
+  // Why url may not be called, null when it may. fetch resolves the host
+  // again, so this narrows rather than closes the window for DNS rebinding.
+  const checkUrl = async (url: string): Promise<string | null> => {
+    const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+    if (allowedHosts.includes(host.toLowerCase())) return null;
+    let addresses: string[];
+    try {
+      addresses =
+        isIP(host) === 0
+          ? (await lookup(host, { all: true })).map(({ address }) => address)
+          : [host];
+    } catch {
+      return `Callback host ${host} does not resolve`;
+    }
+    const internal = addresses.some((address) =>
+      INTERNAL_ADDRESSES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4"),
+    );
+    return internal ? `Callback host ${host} is not a public address` : null;
+  };
+
+  // A failed write (e.g. the job was deleted underneath) only loses the
+  // record; attempts run detached and the first save runs inside job
+  // completion, so nothing must throw out of them
+  const save = (delivery: WebhookDelivery, body?: string): boolean => {
+    try {
+      store.saveDelivery(delivery, body);
+      return true;
+    } catch (err) {
+      console.error(
+        `[Webhook] Could not save delivery=${delivery.deliveryId} job=${delivery.jobId}:`,
+        err,
+      );
+      return false;
+    }
+  };
+
+  const attempt = async (delivery: WebhookDelivery, body: string) => {
+    const attemptNumber = delivery.attempts.length + 1;
+    const started = Date.now();
+    // Re-sign each attempt so the timestamp stays fresh for replay checks
+    const timestamp = Math.floor(started / 1000);
+    let statusCode: number | null = null;
+    let error: string | null = null;
+
+    try {
+      const refused = await checkUrl(delivery.url);
+      if (refused !== null) throw new Error(refused);
+      const response = await fetch(delivery.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "delineate-webhooks/1.0",
+          "X-Webhook-Id": delivery.deliveryId,
+          "X-Webhook-Timestamp": String(timestamp),
+          "X-Webhook-Signature": signPayload(secret, timestamp, body),
+        },
+        body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      statusCode = response.status;
+      if (!response.ok) error = `Unexpected status ${String(response.status)}`;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    delivery.attempts.push({
+      attempt: attemptNumber,
+      attemptedAt: new Date(started).toISOString(),
+      statusCode,
+      error,
+      durationMs: Date.now() - started,
+    });
+    webhookAttempt(error === null);
+
+    if (error === null) {
+      delivery.status = "delivered";
+      delivery.nextAttemptAt = null;
+      delivery.completedAt = new Date().toISOString();
+      save(delivery);
+      return;
+    }
+
+    if (attemptNumber >= maxAttempts) {
+      delivery.status = "dead_letter";
+      delivery.nextAttemptAt = null;
+      delivery.completedAt = new Date().toISOString();
+      save(delivery);
+      webhookDeadLettered();
+      console.error(
+        `[Webhook] Dead-lettered delivery=${delivery.deliveryId} job=${delivery.jobId} after ${String(attemptNumber)} attempts: ${error}`,
+      );
+      return;
+    }
+
+    const delayMs = baseDelayMs * 2 ** (attemptNumber - 1);
+    delivery.nextAttemptAt = new Date(Date.now() + delayMs).toISOString();
+    // No record to report the retry on, so there is no point in sending it
+    if (!save(delivery)) return;
+    console.warn(
+      `[Webhook] Attempt ${String(attemptNumber)} failed for job=${delivery.jobId} (${error}), retrying in ${String(delayMs)}ms`,
+    );
+    schedule(delivery, body, delayMs);
+  };
+
+  const schedule = (
+    delivery: WebhookDelivery,
+    body: string,
+    delayMs: number,
+  ) => {
+    setTimeout(() => {
+      void attempt(delivery, body);
+    }, delayMs).unref();
+  };
+
+  const deliver = (jobId: string, url: string, payload: unknown) => {
+    const delivery: WebhookDelivery = {
+      deliveryId: crypto.randomUUID(),
+      jobId,
+      url,
+      status: "pending",
+      attempts: [],
+      nextAttemptAt: new Date().toISOString(),
+      createdAt: new Date().toISOString(),
+      completedAt: null,
+    };
+    const body = JSON.stringify(payload);
+    // Unsaved, the delivery is still attempted; it just cannot resume
+    // after a restart
+    save(delivery, body);
+    void attempt(delivery, body);
+    return delivery;
+  };
+
+  // Reschedules the deliveries a previous process left pending, overdue
+  // ones straight away; returns how many
+  const resume = (): number => {
+    let resumed = 0;
+    for (const { delivery, body } of store.listPendingDeliveries()) {
+      if (body === null) {
+        // Saved before bodies were stored, nothing to resend
+        delivery.status = "dead_letter";
+        delivery.nextAttemptAt = null;
+        delivery.completedAt = new Date().toISOString();
+        save(delivery);
+        webhookDeadLettered();
+        console.error(
+          `[Webhook] Dead-lettered delivery=${delivery.deliveryId} job=${delivery.jobId}: no stored body to resend`,
+        );
+        continue;
+      }
+      const dueAt = Date.parse(delivery.nextAttemptAt ?? delivery.createdAt);
+      schedule(delivery, body, Math.max(0, dueAt - Date.now()));
+      resumed++;
+    }
+    return resumed;
+  };
+
+  const getDeliveries = (jobId: string): WebhookDelivery[] =>
+    store.getDeliveries(jobId);
+
+  return { checkUrl, deliver, resume, getDeliveries };
+};
+
+export type WebhookDispatcher = ReturnType<typeof createWebhookDispatcher>;